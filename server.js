@@ -1,10 +1,22 @@
 import express from 'express';
 import cors from 'cors';
-import Anthropic from '@anthropic-ai/sdk';
 import dotenv from 'dotenv';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
 import fs from 'fs';
+import { DEFAULT_MODEL_KEY, estimateCost, listModels, resolveModel } from './server/models.js';
+import { createProvider, GenerationAbortedError } from './server/providers/index.js';
+import { repairHtml } from './server/htmlRepair.js';
+import { stripElementIds } from './server/exportHtml.js';
+import { createProjectStore, isValidProjectId, validateProject } from './server/projectStore.js';
+import { createUsageLedger, USAGE_KINDS } from './server/usageLedger.js';
+import { createSiteStore, defaultSlug, isValidSlug } from './server/siteStore.js';
+import { createShareStore, isValidShareToken } from './server/shareStore.js';
+import { renderPasscodePage, renderShareUnavailable, renderShareViewer } from './server/shareViewer.js';
+import { createJobStore, isValidJobId, JOB_STATUSES, terminalEvent } from './server/jobStore.js';
+import { validateImages } from './server/images.js';
+import { AUDIO_MIME_TYPES, createTranscriber } from './server/transcribers/index.js';
+import { buildVariantPrompt, listVariantPresets, mapWithConcurrency, MAX_VARIANTS, MIN_VARIANTS, resolveDirections } from './server/variants.js';
 
 // Configure dotenv
 const __filename = fileURLToPath(import.meta.url);
@@ -32,82 +44,344 @@ console.log('All env vars:', Object.keys(process.env).filter(key => key.includes
 
 // Middleware
 app.use(cors());
-app.use(express.json());
+app.use(express.json({ limit: '30mb' })); // Full page HTML (projects, refinements) and base64 reference images
 
-// Initialize Anthropic client
-const anthropic = new Anthropic({
+// Initialize the LLM provider (PRISM_PROVIDER=fixture replays recorded responses offline)
+const provider = createProvider({
+  name: process.env.PRISM_PROVIDER || 'anthropic',
   apiKey: process.env.CLAUDE_API_KEY,
+  fixturesDir: process.env.PRISM_FIXTURES_DIR || join(__dirname, 'fixtures', 'llm'),
+  fixtureDelayMs: Number(process.env.PRISM_FIXTURE_DELAY_MS) || 0,
+  recordFixtures: process.env.PRISM_RECORD_FIXTURES === '1',
 });
+console.log('🔌 LLM provider:', provider.name);
+
+// Speech-to-text for the microphone button (PRISM_TRANSCRIBER=whisper needs a Whisper server)
+const transcriber = createTranscriber({
+  name: process.env.PRISM_TRANSCRIBER || 'local',
+  transcriptsDir: process.env.PRISM_TRANSCRIPTS_DIR || join(__dirname, 'fixtures', 'transcripts'),
+  transcriptText: process.env.PRISM_TRANSCRIPT_TEXT,
+  whisperUrl: process.env.PRISM_WHISPER_URL,
+  whisperModel: process.env.PRISM_WHISPER_MODEL || 'whisper-1',
+  whisperApiKey: process.env.PRISM_WHISPER_API_KEY,
+});
+console.log('🎙️ Transcriber:', transcriber.name);
+
+// Projects are stored as files in the data directory (ignored by git)
+const dataDir = process.env.PRISM_DATA_DIR || join(__dirname, '.prism-data');
+const projectStore = createProjectStore({ dir: dataDir });
+console.log('💾 Project data directory:', dataDir);
+const usageLedger = createUsageLedger({ file: join(dataDir, 'usage.jsonl') });
+const jobStore = createJobStore({ dir: dataDir });
+const siteStore = createSiteStore({ dir: dataDir });
+const shareStore = createShareStore({ dir: dataDir });
+
+// How many variant generations run at the same time (rate limits, not CPU, are the constraint)
+const variantConcurrency = Number(process.env.PRISM_VARIANT_CONCURRENCY) || 3;
+
+// Best-effort HTML from a response that is still being written
+const extractPartialHtml = (snapshot) => {
+  const fenceStart = snapshot.indexOf('```html');
+  if (fenceStart !== -1) {
+    const body = snapshot.slice(fenceStart + '```html'.length);
+    const fenceEnd = body.indexOf('```');
+    return (fenceEnd === -1 ? body : body.slice(0, fenceEnd)).trim();
+  }
+  const docStart = snapshot.search(/<!DOCTYPE html|<html/i);
+  return docStart === -1 ? '' : snapshot.slice(docStart).trim();
+};
+
+// Section names (id or first class) seen so far, used for progress events
+const detectSections = (html) => {
+  const sections = [];
+  const sectionRegex = /<(header|nav|section|footer|main)\b([^>]*)>/gi;
+  let match;
+  while ((match = sectionRegex.exec(html)) !== null) {
+    const attrs = match[2];
+    const id = attrs.match(/\bid=["']([^"']+)["']/i);
+    const cls = attrs.match(/\bclass=["']([^"'\s]+)/i);
+    sections.push(id ? id[1] : cls ? cls[1] : match[1].toLowerCase());
+  }
+  return sections;
+};
+
+const logGeneration = (model, result, generatedCode, fixes) => {
+  const { text: rawResponse, usage } = result;
+  const explanation = rawResponse.replace(/```html[\s\S]*?```/g, '').trim();
+
+  console.log('✅ [Prism Server] Generated code length:', generatedCode.length, 'chars');
+  console.log('🤖 [Model]:', model.key, `(${model.id})`);
+  console.log('📊 [Token Usage]:', usage);
+  console.log('🔁 [Continuations]:', result.continuations, result.truncated ? '- STILL TRUNCATED' : '');
+  console.log('🩹 [HTML Repair]:', fixes.length > 0 ? fixes : 'No fixes needed');
+  console.log('💰 [Estimated Cost]:', `~$${estimateCost(model, usage).toFixed(4)}`);
+
+  if (explanation && explanation.length > 50) {
+    console.log('\n💬 [AI EXPLANATION - Hidden from user]:\n');
+    console.log(explanation);
+    console.log('\n========================================\n');
+  }
+
+  console.log('\n📋 [HTML CODE PREVIEW - First 500 chars]:\n');
+  console.log(generatedCode.substring(0, 500));
+  console.log('\n...\n');
+  console.log('\n📋 [HTML CODE PREVIEW - Last 300 chars]:\n');
+  console.log(generatedCode.substring(generatedCode.length - 300));
+  console.log('\n========================================\n');
+};
+
+// Which ledger bucket a request belongs to; clients pass `kind` and `projectId` in the body
+const usageContext = (req, kind) => ({
+  kind: kind || (USAGE_KINDS.includes(req.body.kind) ? req.body.kind : 'generate'),
+  projectId: isValidProjectId(req.body.projectId) ? req.body.projectId : null,
+});
+
+// Record a model call in the usage ledger - `result` is a provider result, or the partial
+// result of a GenerationAbortedError for cancelled calls (status 'aborted')
+const recordUsage = ({ kind, projectId }, model, result, startedAt, status = 'ok') =>
+  usageLedger.record({
+    kind,
+    projectId,
+    model: model.key,
+    input_tokens: result.usage.input_tokens,
+    output_tokens: result.usage.output_tokens,
+    cost: estimateCost(model, result.usage),
+    durationMs: Date.now() - startedAt,
+    continuations: result.continuations,
+    status,
+  });
+
+// Cancelled calls are still billed for what the model produced before the abort
+const recordAbortedUsage = (context, model, error, startedAt) => {
+  console.log('⏹️ [Prism Server] Generation cancelled - partial usage:', error.partial.usage);
+  return recordUsage(context, model, error.partial, startedAt, 'aborted');
+};
+
+// Abort the upstream model call when the client goes away before the response is finished
+// (cancel button, navigation, closed tab)
+const abortOnDisconnect = (res) => {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) {
+      console.log('⏹️ [Prism Server] Client disconnected - cancelling the model call');
+      controller.abort();
+    }
+  });
+  return controller.signal;
+};
+
+const sendEvent = (res, event, data) => {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+};
+
+// How often partial HTML is pushed to the client while streaming
+const PARTIAL_HTML_INTERVAL_MS = 750;
+
+// Progress callbacks for provider.generate() that report through `emit(event, data)`:
+//   progress - output size and sections written so far
+//   html     - the partial document, throttled to PARTIAL_HTML_INTERVAL_MS
+//   continuation - the output was cut off and a follow-up request has started
+const progressReporter = (emit) => {
+  let lastHtmlSentAt = 0;
+  let lastSectionCount = 0;
+
+  const onText = (_delta, snapshot) => {
+    const now = Date.now();
+    const partialHtml = extractPartialHtml(snapshot);
+    const sections = detectSections(partialHtml);
+
+    if (now - lastHtmlSentAt >= PARTIAL_HTML_INTERVAL_MS || sections.length !== lastSectionCount) {
+      emit('progress', {
+        outputChars: snapshot.length,
+        estimatedTokens: Math.round(snapshot.length / 4),
+        sections,
+      });
+      lastSectionCount = sections.length;
+    }
+
+    if (partialHtml && now - lastHtmlSentAt >= PARTIAL_HTML_INTERVAL_MS) {
+      emit('html', { code: partialHtml });
+      lastHtmlSentAt = now;
+    }
+  };
+
+  const onContinue = (continuations) => {
+    emit('continuation', { continuations });
+  };
+
+  return { onText, onContinue };
+};
+
+// Repair and log a finished generation; returns the `usage` and `done` event payloads
+const finishGeneration = (model, prompt, result) => {
+  const { usage } = result;
+  const { html: generatedCode, fixes } = repairHtml(result.text);
+
+  logGeneration(model, result, generatedCode, fixes);
+
+  return {
+    usage: {
+      ...usage,
+      model: model.key,
+      estimatedCost: estimateCost(model, usage),
+    },
+    done: {
+      success: true,
+      code: generatedCode,
+      prompt: prompt,
+      continuations: result.continuations,
+      truncated: result.truncated,
+      fixes,
+    },
+  };
+};
+
+// Stream the generation to the client as Server-Sent Events:
+//   progress, html, continuation - see progressReporter()
+//   usage    - final token usage and estimated cost
+//   done     - the finished code, same shape as the JSON response
+//   error    - generation failed after the stream was opened
+const streamGeneration = async (res, model, prompt, images, context) => {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  res.flushHeaders();
+
+  const signal = abortOnDisconnect(res);
+  const startedAt = Date.now();
+
+  try {
+    const { onText, onContinue } = progressReporter((event, data) => sendEvent(res, event, data));
+    const result = await provider.generate({ model, prompt, images, onText, onContinue, signal });
+    recordUsage(context, model, result, startedAt);
+    const { usage, done } = finishGeneration(model, prompt, result);
+
+    sendEvent(res, 'usage', usage);
+    sendEvent(res, 'done', done);
+  } catch (error) {
+    if (error instanceof GenerationAbortedError) {
+      recordAbortedUsage(context, model, error, startedAt);
+      return;
+    }
+    console.error('Error:', error);
+    sendEvent(res, 'error', {
+      error: 'Failed to generate interface',
+      details: error.message,
+    });
+  } finally {
+    res.end();
+  }
+};
+
+// Run a generation job in the background; its events go to the job store instead of a response,
+// so the model call is not tied to the connection of the client that started it.
+// Reference images are only held here, the job record keeps their count.
+const runGenerationJob = async (job, signal, model, context, images) => {
+  const startedAt = Date.now();
+  const emit = (event, data) => jobStore.publish(job.id, event, data);
+
+  try {
+    const { onText, onContinue } = progressReporter(emit);
+    const result = await provider.generate({ model, prompt: job.prompt, images, onText, onContinue, signal });
+    recordUsage(context, model, result, startedAt);
+    const { usage, done } = finishGeneration(model, job.prompt, result);
+
+    emit('usage', usage);
+    jobStore.finish(job.id, 'succeeded', { result: done });
+    console.log('🧵 [Jobs] Job finished:', job.id);
+  } catch (error) {
+    if (error instanceof GenerationAbortedError) {
+      recordAbortedUsage(context, model, error, startedAt);
+      jobStore.finish(job.id, 'cancelled');
+      return;
+    }
+    console.error('❌ [Jobs] Job failed:', job.id, error);
+    jobStore.finish(job.id, 'failed', {
+      error: { error: 'Failed to generate interface', details: error.message },
+    });
+  }
+};
+
+const sendProviderNotConfigured = (res) =>
+  res.status(500).json({ 
+    error: 'Claude API key not configured',
+    details: 'Please check your .env.local file',
+    debug: {
+      envPath,
+      fileExists: fs.existsSync(envPath),
+      allEnvVars: Object.keys(process.env).filter(key => key.includes('CLAUDE'))
+    }
+  });
+
+const sendUnknownModel = (res, key) =>
+  res.status(400).json({
+    error: 'Unknown model',
+    details: `"${key}" is not one of: ${listModels().map(m => m.key).join(', ')}`
+  });
 
 // API endpoint to generate web interface
+// Pass `stream: true` in the body to receive Server-Sent Events instead of one JSON response
+// `kind` ('generate' | 'variant') and `projectId` only label the call in the usage ledger
+// `images` ([{ mediaType, data }], base64) are reference images the page should be modelled on
 app.post('/api/generate', async (req, res) => {
+  const context = usageContext(req);
+  const startedAt = Date.now();
+  let model;
+
   try {
-    const { prompt } = req.body;
+    const { prompt, stream } = req.body;
     
     if (!prompt) {
       return res.status(400).json({ error: 'Prompt is required' });
     }
 
-    if (!process.env.CLAUDE_API_KEY) {
-      return res.status(500).json({ 
-        error: 'Claude API key not configured',
-        details: 'Please check your .env.local file',
-        debug: {
-          envPath,
-          fileExists: fs.existsSync(envPath),
-          allEnvVars: Object.keys(process.env).filter(key => key.includes('CLAUDE'))
-        }
-      });
+    const { images, problem } = validateImages(req.body.images);
+    if (problem) {
+      return res.status(400).json({ error: 'Invalid images', details: problem });
+    }
+
+    model = resolveModel(req.body.model);
+    if (!model) {
+      return sendUnknownModel(res, req.body.model);
+    }
+
+    if (!provider.isConfigured()) {
+      return sendProviderNotConfigured(res);
     }
 
     console.log('🎨 [Prism Server] Generating interface with premium design constraints...');
     console.log('📏 [Prism Server] Enhanced prompt length:', prompt.length, 'characters');
+    if (images.length > 0) {
+      console.log('🖼️ [Prism Server] Reference images:', images.length);
+    }
 
-    // The prompt is already enhanced with premium design constraints from the frontend
-    // via enhancePromptWithPremiumDesign() - just pass it directly to Claude
-    const message = await anthropic.messages.create({
-      model: 'claude-sonnet-4-20250514',
-      max_tokens: 16000, // Very high for testing - ensures complete implementations
-      messages: [{
-        role: 'user',
-        content: prompt // Already contains premium design system constraints + user request
-      }]
-    });
-
-    const rawResponse = message.content[0].text;
-    
-    // Extract HTML code from markdown code blocks
-    const htmlMatch = rawResponse.match(/```html\s*([\s\S]*?)```/);
-    const generatedCode = htmlMatch ? htmlMatch[1].trim() : rawResponse;
-    
-    // Extract explanation/description (everything outside HTML blocks)
-    const explanation = rawResponse.replace(/```html[\s\S]*?```/g, '').trim();
-    
-    console.log('✅ [Prism Server] Generated code length:', generatedCode.length, 'chars');
-    console.log('📊 [Token Usage]:', message.usage);
-    console.log('⚠️  [Token Limit Check]:', message.usage.output_tokens >= 15500 ? 'NEAR LIMIT - Consider increasing!' : 'OK');
-    console.log('💰 [Estimated Cost]:', `~$${((message.usage.input_tokens * 3 / 1000000) + (message.usage.output_tokens * 15 / 1000000)).toFixed(4)}`);
-    
-    if (explanation && explanation.length > 50) {
-      console.log('\n💬 [AI EXPLANATION - Hidden from user]:\n');
-      console.log(explanation);
-      console.log('\n========================================\n');
+    if (stream) {
+      console.log('📡 [Prism Server] Streaming response over SSE');
+      return streamGeneration(res, model, prompt, images, context);
     }
-    
-    console.log('\n📋 [HTML CODE PREVIEW - First 500 chars]:\n');
-    console.log(generatedCode.substring(0, 500));
-    console.log('\n...\n');
-    console.log('\n📋 [HTML CODE PREVIEW - Last 300 chars]:\n');
-    console.log(generatedCode.substring(generatedCode.length - 300));
-    console.log('\n========================================\n');
+
+    // The prompt is already enhanced with premium design constraints from the frontend
+    // via enhancePromptWithPremiumDesignV3() - just pass it directly to the provider
+    const result = await provider.generate({ model, prompt, images, signal: abortOnDisconnect(res) });
+    recordUsage(context, model, result, startedAt);
+    const { done } = finishGeneration(model, prompt, result);
     
     res.json({ 
-      success: true, 
-      code: generatedCode,
-      prompt: prompt 
+      ...done,
+      model: model.key,
+      usage: {
+        ...result.usage,
+        estimatedCost: estimateCost(model, result.usage)
+      }
     });
 
   } catch (error) {
+    if (error instanceof GenerationAbortedError) {
+      recordAbortedUsage(context, model, error, startedAt);
+      return;
+    }
     console.error('Error:', error);
     res.status(500).json({ 
       error: 'Failed to generate interface',
@@ -116,12 +390,672 @@ app.post('/api/generate', async (req, res) => {
   }
 });
 
+// API endpoint to refine an existing design with a follow-up instruction
+// Expects the current HTML with the user's saved style edits already applied
+app.post('/api/refine', async (req, res) => {
+  const context = usageContext(req, 'refine');
+  const startedAt = Date.now();
+  let model;
+
+  try {
+    const { html, instruction } = req.body;
+
+    if (!html || !instruction) {
+      return res.status(400).json({ error: 'Both html and instruction are required' });
+    }
+
+    model = resolveModel(req.body.model);
+    if (!model) {
+      return sendUnknownModel(res, req.body.model);
+    }
+
+    if (!provider.isConfigured()) {
+      return sendProviderNotConfigured(res);
+    }
+
+    console.log('🪄 [Prism Server] Refining design:', instruction);
+    console.log('📏 [Prism Server] Current document length:', html.length, 'characters');
+
+    const result = await provider.refine({ model, html, instruction, signal: abortOnDisconnect(res) });
+    const { usage } = result;
+    recordUsage(context, model, result, startedAt);
+    const { html: refinedCode, fixes } = repairHtml(result.text);
+
+    logGeneration(model, result, refinedCode, fixes);
+
+    res.json({
+      success: true,
+      code: refinedCode,
+      instruction,
+      model: model.key,
+      continuations: result.continuations,
+      truncated: result.truncated,
+      fixes,
+      usage: {
+        ...usage,
+        estimatedCost: estimateCost(model, usage)
+      }
+    });
+
+  } catch (error) {
+    if (error instanceof GenerationAbortedError) {
+      recordAbortedUsage(context, model, error, startedAt);
+      return;
+    }
+    console.error('Error:', error);
+    res.status(500).json({
+      error: 'Failed to refine interface',
+      details: error.message
+    });
+  }
+});
+
+// API endpoint to generate several variants of one prompt, each in its own style direction
+// Body: { prompt, model, count (2-6), directions: [preset key or free text], projectId }
+// Directions left out are filled with presets. One failed variant does not fail the others.
+app.post('/api/variants', async (req, res) => {
+  const { prompt } = req.body;
+  if (!prompt) {
+    return res.status(400).json({ error: 'Prompt is required' });
+  }
+
+  const requested = req.body.directions || [];
+  const count = req.body.count ?? Math.max(MIN_VARIANTS, Array.isArray(requested) ? requested.length : 0);
+  if (!Number.isInteger(count) || count < MIN_VARIANTS || count > MAX_VARIANTS) {
+    return res.status(400).json({ error: 'Invalid count', details: `count must be a whole number from ${MIN_VARIANTS} to ${MAX_VARIANTS}` });
+  }
+  const { directions, problem } = resolveDirections(requested, count);
+  if (problem) {
+    return res.status(400).json({ error: 'Invalid directions', details: problem });
+  }
+
+  const model = resolveModel(req.body.model);
+  if (!model) {
+    return sendUnknownModel(res, req.body.model);
+  }
+
+  if (!provider.isConfigured()) {
+    return sendProviderNotConfigured(res);
+  }
+
+  const context = usageContext(req, 'variant');
+  const signal = abortOnDisconnect(res);
+  console.log(`🎨 [Prism Server] Generating ${count} variants (${variantConcurrency} at a time):`, directions.map(d => d.label));
+
+  const variants = await mapWithConcurrency(directions, variantConcurrency, async (direction, index) => {
+    const { instructions, ...publicDirection } = direction;
+    const startedAt = Date.now();
+    try {
+      const variantPrompt = buildVariantPrompt(prompt, direction, index);
+      const result = await provider.generate({ model, prompt: variantPrompt, signal });
+      recordUsage(context, model, result, startedAt);
+      const { usage, done } = finishGeneration(model, variantPrompt, result);
+      return {
+        direction: publicDirection,
+        success: true,
+        code: done.code,
+        continuations: done.continuations,
+        truncated: done.truncated,
+        fixes: done.fixes,
+        usage: {
+          input_tokens: usage.input_tokens,
+          output_tokens: usage.output_tokens,
+          estimatedCost: usage.estimatedCost,
+        },
+      };
+    } catch (error) {
+      if (error instanceof GenerationAbortedError) {
+        recordAbortedUsage(context, model, error, startedAt);
+      } else {
+        console.error(`❌ [Prism Server] Variant "${direction.label}" failed:`, error);
+      }
+      return { direction: publicDirection, success: false, error: error.message };
+    }
+  });
+
+  if (signal.aborted) return;
+
+  const succeeded = variants.filter(variant => variant.success);
+  const usage = succeeded.reduce((total, variant) => ({
+    input_tokens: total.input_tokens + variant.usage.input_tokens,
+    output_tokens: total.output_tokens + variant.usage.output_tokens,
+    estimatedCost: total.estimatedCost + variant.usage.estimatedCost,
+  }), { input_tokens: 0, output_tokens: 0, estimatedCost: 0 });
+
+  if (succeeded.length === 0) {
+    return res.status(502).json({
+      error: 'Failed to generate variants',
+      details: variants.map(variant => `${variant.direction.label}: ${variant.error}`).join('; '),
+    });
+  }
+
+  console.log(`✅ [Prism Server] ${succeeded.length}/${count} variants generated, ~$${usage.estimatedCost.toFixed(4)}`);
+  res.json({ success: true, model: model.key, variants, usage });
+});
+
+app.get('/api/variants/presets', (req, res) => {
+  res.json({ presets: listVariantPresets(), minCount: MIN_VARIANTS, maxCount: MAX_VARIANTS });
+});
+
+// Generation jobs - the model call runs on the server whether or not anyone is connected,
+// so a reloaded page can resume following it (see server/jobStore.js)
+const requireJob = (req, res) => {
+  const job = isValidJobId(req.params.id) && jobStore.get(req.params.id);
+  if (!job) {
+    res.status(404).json({ error: 'Job not found' });
+    return null;
+  }
+  return job;
+};
+
+// Same body as /api/generate; answers 202 with the job right away
+app.post('/api/jobs', (req, res) => {
+  const { prompt } = req.body;
+  if (!prompt) {
+    return res.status(400).json({ error: 'Prompt is required' });
+  }
+
+  const { images, problem } = validateImages(req.body.images);
+  if (problem) {
+    return res.status(400).json({ error: 'Invalid images', details: problem });
+  }
+
+  const model = resolveModel(req.body.model);
+  if (!model) {
+    return sendUnknownModel(res, req.body.model);
+  }
+
+  if (!provider.isConfigured()) {
+    return sendProviderNotConfigured(res);
+  }
+
+  const context = usageContext(req);
+  const { job, signal } = jobStore.create({ ...context, model: model.key, prompt, imageCount: images.length });
+  console.log('🧵 [Jobs] Started generation job:', job.id, `(${context.kind})`, images.length > 0 ? `with ${images.length} image(s)` : '');
+  runGenerationJob(job, signal, model, context, images);
+  res.status(202).json(job);
+});
+
+// Optional query: status (running | succeeded | failed | cancelled)
+app.get('/api/jobs', (req, res) => {
+  const { status } = req.query;
+  if (status !== undefined && !JOB_STATUSES.includes(status)) {
+    return res.status(400).json({ error: 'Invalid status', details: `Expected one of: ${JOB_STATUSES.join(', ')}` });
+  }
+  res.json({ jobs: jobStore.list({ status }) });
+});
+
+// Poll a job: status, progress, the partial document while running and the result once done
+app.get('/api/jobs/:id', (req, res) => {
+  const job = requireJob(req, res);
+  if (!job) return;
+  res.json(job);
+});
+
+// Follow a job as Server-Sent Events, with the same events as a streaming /api/generate
+// plus `cancelled`. The current progress is sent first, so late subscribers catch up;
+// closing the connection does NOT cancel the job.
+app.get('/api/jobs/:id/events', (req, res) => {
+  const job = requireJob(req, res);
+  if (!job) return;
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  res.flushHeaders();
+
+  if (job.status !== 'running') {
+    const { event, data } = terminalEvent(job);
+    sendEvent(res, event, data);
+    return res.end();
+  }
+
+  sendEvent(res, 'progress', job.progress);
+  if (job.partialCode) sendEvent(res, 'html', { code: job.partialCode });
+
+  const unsubscribe = jobStore.subscribe(job.id, ({ event, data }) => {
+    sendEvent(res, event, data);
+    if (job.status !== 'running') res.end();
+  });
+  res.on('close', unsubscribe);
+});
+
+// Cancel a running job; the partial usage is still recorded
+app.post('/api/jobs/:id/cancel', (req, res) => {
+  const job = requireJob(req, res);
+  if (!job) return;
+  if (!jobStore.cancel(job.id)) {
+    return res.status(409).json({ error: 'Job is not running', details: `Job is already ${job.status}` });
+  }
+  console.log('⏹️ [Jobs] Cancelling job:', job.id);
+  res.json({ success: true });
+});
+
+// Project persistence - replaces localStorage['prism-saved-designs']
+const requireProjectId = (req, res) => {
+  if (!isValidProjectId(req.params.id)) {
+    res.status(400).json({ error: 'Invalid project id' });
+    return null;
+  }
+  return req.params.id;
+};
+
+const sendStoreError = (res, action, error) => {
+  console.error(`❌ [Project Store] Failed to ${action}:`, error);
+  res.status(500).json({ error: `Failed to ${action}`, details: error.message });
+};
+
+app.get('/api/projects', async (req, res) => {
+  try {
+    res.json({ projects: await projectStore.list() });
+  } catch (error) {
+    sendStoreError(res, 'list projects', error);
+  }
+});
+
+// One-time import of projects saved in a browser's localStorage; existing ids are left alone
+app.post('/api/projects/import', async (req, res) => {
+  const { projects } = req.body;
+  if (!Array.isArray(projects)) {
+    return res.status(400).json({ error: 'projects must be an array' });
+  }
+
+  try {
+    let imported = 0;
+    const skipped = [];
+    for (const project of projects) {
+      const problems = isValidProjectId(project?.id) ? validateProject(project) : ['invalid id'];
+      if (problems.length > 0 || await projectStore.get(project.id)) {
+        skipped.push({ id: project?.id, reason: problems.join(', ') || 'already exists' });
+        continue;
+      }
+      await projectStore.put(project.id, project);
+      imported++;
+    }
+    console.log(`💾 [Project Store] Imported ${imported} projects, skipped ${skipped.length}`);
+    res.json({ imported, skipped });
+  } catch (error) {
+    sendStoreError(res, 'import projects', error);
+  }
+});
+
+app.get('/api/projects/:id', async (req, res) => {
+  const id = requireProjectId(req, res);
+  if (!id) return;
+  try {
+    const project = await projectStore.get(id);
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+    res.json(project);
+  } catch (error) {
+    sendStoreError(res, 'load project', error);
+  }
+});
+
+// Create or replace a project
+app.put('/api/projects/:id', async (req, res) => {
+  const id = requireProjectId(req, res);
+  if (!id) return;
+  const problems = validateProject(req.body);
+  if (problems.length > 0) {
+    return res.status(400).json({ error: 'Invalid project', details: problems.join(', ') });
+  }
+  try {
+    res.json(await projectStore.put(id, req.body));
+  } catch (error) {
+    sendStoreError(res, 'save project', error);
+  }
+});
+
+// Update some fields of an existing project (e.g. only its edits)
+app.patch('/api/projects/:id', async (req, res) => {
+  const id = requireProjectId(req, res);
+  if (!id) return;
+  const problems = validateProject(req.body, { partial: true });
+  if (problems.length > 0) {
+    return res.status(400).json({ error: 'Invalid project', details: problems.join(', ') });
+  }
+  try {
+    const project = await projectStore.patch(id, req.body);
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+    res.json(project);
+  } catch (error) {
+    sendStoreError(res, 'update project', error);
+  }
+});
+
+app.delete('/api/projects/:id', async (req, res) => {
+  const id = requireProjectId(req, res);
+  if (!id) return;
+  try {
+    const project = await projectStore.get(id);
+    const removed = await projectStore.remove(id);
+    if (!removed) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+    if (project?.published) {
+      await siteStore.unpublish({ projectId: id, slug: project.published.slug });
+    }
+    await shareStore.revokeProject(id);
+    res.json({ success: true });
+  } catch (error) {
+    sendStoreError(res, 'delete project', error);
+  }
+});
+
+app.get('/api/projects/:id/thumbnail', (req, res) => {
+  const id = requireProjectId(req, res);
+  if (!id) return;
+  const file = projectStore.thumbnailPath(id);
+  if (!file) {
+    return res.status(404).json({ error: 'Thumbnail not found' });
+  }
+  res.sendFile(file);
+});
+
+// Publish (or republish) a project as a static site at /sites/<slug>/
+// Body: { html, slug? } - html is the final page with the saved style edits already applied.
+// The slug defaults to the one the project was published under, or one derived from its prompt.
+app.post('/api/projects/:id/publish', async (req, res) => {
+  const id = requireProjectId(req, res);
+  if (!id) return;
+  const { html, slug: requestedSlug } = req.body;
+  if (typeof html !== 'string' || !html.trim()) {
+    return res.status(400).json({ error: 'html is required' });
+  }
+  if (requestedSlug !== undefined && !isValidSlug(requestedSlug)) {
+    return res.status(400).json({
+      error: 'Invalid address',
+      details: 'Use 1-64 lowercase letters, digits and dashes, starting and ending with a letter or digit'
+    });
+  }
+
+  try {
+    const project = await projectStore.get(id);
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+    const previousSlug = project.published?.slug;
+    const slug = requestedSlug || previousSlug || defaultSlug(project);
+    const { site, conflict } = await siteStore.publish({ projectId: id, slug, html, previousSlug });
+    if (conflict) {
+      return res.status(409).json({ error: 'Address already taken', details: conflict });
+    }
+
+    const published = {
+      slug,
+      path: `/sites/${slug}/`,
+      version: site.version,
+      publishedAt: site.publishedAt,
+      sourceHash: site.sourceHash,
+    };
+    res.json(await projectStore.patch(id, { published }));
+  } catch (error) {
+    sendStoreError(res, 'publish project', error);
+  }
+});
+
+app.delete('/api/projects/:id/publish', async (req, res) => {
+  const id = requireProjectId(req, res);
+  if (!id) return;
+  try {
+    const project = await projectStore.get(id);
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+    if (!project.published) {
+      return res.status(404).json({ error: 'Project is not published' });
+    }
+    await siteStore.unpublish({ projectId: id, slug: project.published.slug });
+    res.json(await projectStore.patch(id, { published: null }));
+  } catch (error) {
+    sendStoreError(res, 'unpublish project', error);
+  }
+});
+
+// Published sites; /sites/<slug> redirects to the directory form so relative asset URLs resolve.
+// Sandboxed like shares: the page's scripts (and those of SVG assets opened directly) run in an
+// opaque origin, so they cannot call the Prism API as this origin.
+app.get('/sites/:slug{/*path}', async (req, res) => {
+  const path = [].concat(req.params.path || []).join('/');
+  if (!path && !req.path.endsWith('/')) {
+    return res.redirect(301, `/sites/${encodeURIComponent(req.params.slug)}/`);
+  }
+  try {
+    const file = await siteStore.resolve(req.params.slug, path);
+    if (!file) {
+      return res.status(404).type('text/plain').send('Site not found');
+    }
+    // Asset names are content hashes; the page itself changes with every publish
+    res.setHeader('Cache-Control', path.startsWith('assets/') ? 'public, max-age=31536000, immutable' : 'no-cache');
+    res.setHeader('Content-Security-Policy', 'sandbox allow-scripts allow-popups allow-forms');
+    res.sendFile(file);
+  } catch (error) {
+    console.error('❌ [Site Store] Failed to serve site:', req.params.slug, error);
+    res.status(500).type('text/plain').send('Failed to load site');
+  }
+});
+
+// Share links: read-only snapshots of one revision for internal review, see server/shareStore.js
+// Body: { revisionId?, html?, expiresInHours?, passcode? } - without a revisionId, `html` is the
+// current design with the saved style edits applied
+const MAX_SHARE_HOURS = 24 * 365;
+
+app.post('/api/projects/:id/shares', async (req, res) => {
+  const id = requireProjectId(req, res);
+  if (!id) return;
+  const { revisionId, html, expiresInHours, passcode } = req.body;
+  if (expiresInHours !== undefined && expiresInHours !== null
+    && !(Number.isFinite(expiresInHours) && expiresInHours > 0 && expiresInHours <= MAX_SHARE_HOURS)) {
+    return res.status(400).json({ error: 'Invalid expiry', details: `expiresInHours must be between 0 and ${MAX_SHARE_HOURS}` });
+  }
+  if (passcode !== undefined && passcode !== '' && (typeof passcode !== 'string' || passcode.length < 4 || passcode.length > 100)) {
+    return res.status(400).json({ error: 'Invalid passcode', details: 'Passcodes are 4 to 100 characters long' });
+  }
+
+  try {
+    const project = await projectStore.get(id);
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+    let snapshot = html;
+    if (revisionId !== undefined) {
+      const revision = (project.revisions || []).find(candidate => candidate.id === revisionId);
+      if (!revision) {
+        return res.status(404).json({ error: 'Revision not found' });
+      }
+      snapshot = revision.code;
+    }
+    if (typeof snapshot !== 'string' || !snapshot.trim()) {
+      return res.status(400).json({ error: 'Either revisionId or html is required' });
+    }
+
+    const share = await shareStore.create({
+      projectId: id,
+      revisionId: revisionId ?? null,
+      title: project.prompt.length > 80 ? `${project.prompt.slice(0, 80)}...` : project.prompt,
+      // The client strips `html` already; revisions are stored with every element id
+      html: stripElementIds(snapshot),
+      expiresAt: expiresInHours ? Date.now() + expiresInHours * 60 * 60 * 1000 : null,
+      passcode: passcode || null,
+    });
+    res.status(201).json(share);
+  } catch (error) {
+    sendStoreError(res, 'create share link', error);
+  }
+});
+
+// Optional query: projectId
+app.get('/api/shares', async (req, res) => {
+  try {
+    res.json({ shares: await shareStore.list({ projectId: req.query.projectId }) });
+  } catch (error) {
+    sendStoreError(res, 'list share links', error);
+  }
+});
+
+app.delete('/api/shares/:token', async (req, res) => {
+  if (!isValidShareToken(req.params.token)) {
+    return res.status(400).json({ error: 'Invalid share token' });
+  }
+  try {
+    if (!(await shareStore.revoke(req.params.token))) {
+      return res.status(404).json({ error: 'Share link not found' });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    sendStoreError(res, 'revoke share link', error);
+  }
+});
+
+const SHARE_COOKIE = 'prism_share';
+
+const readCookie = (req, name) => {
+  const pair = (req.headers.cookie || '').split(';').map(part => part.trim()).find(part => part.startsWith(`${name}=`));
+  return pair ? decodeURIComponent(pair.slice(name.length + 1)) : undefined;
+};
+
+// The share behind /share/:token, or null after answering with the matching "unavailable" page
+const requireShare = async (req, res) => {
+  const share = await shareStore.get(req.params.token);
+  if (!share) {
+    res.status(404).type('html').send(renderShareUnavailable('This link does not exist or has been revoked.'));
+    return null;
+  }
+  if (shareStore.isExpired(share)) {
+    res.status(410).type('html').send(renderShareUnavailable('This link has expired. Ask for a new one.'));
+    return null;
+  }
+  return share;
+};
+
+app.get('/share/:token', async (req, res) => {
+  try {
+    const share = await requireShare(req, res);
+    if (!share) return;
+    res.setHeader('Cache-Control', 'no-store');
+    if (!shareStore.isUnlocked(share, readCookie(req, SHARE_COOKIE))) {
+      return res.status(401).type('html').send(renderPasscodePage(share));
+    }
+    res.type('html').send(renderShareViewer(share));
+  } catch (error) {
+    console.error('❌ [Share Store] Failed to open share:', error);
+    res.status(500).type('html').send(renderShareUnavailable('Something went wrong loading this link.'));
+  }
+});
+
+app.post('/share/:token/unlock', express.urlencoded({ extended: false }), async (req, res) => {
+  try {
+    const share = await requireShare(req, res);
+    if (!share) return;
+    if (!share.passcode) return res.redirect(303, `/share/${share.token}`);
+    const { cookie, problem } = shareStore.unlock(share, req.body?.passcode);
+    if (problem) {
+      return res.status(401).type('html').send(renderPasscodePage(share, problem));
+    }
+    res.cookie(SHARE_COOKIE, cookie, { httpOnly: true, sameSite: 'lax', path: `/share/${share.token}` });
+    res.redirect(303, `/share/${share.token}`);
+  } catch (error) {
+    console.error('❌ [Share Store] Failed to unlock share:', error);
+    res.status(500).type('html').send(renderShareUnavailable('Something went wrong loading this link.'));
+  }
+});
+
+// The shared design itself; sandboxed so its scripts cannot reach the Prism server as this origin
+app.get('/share/:token/content', async (req, res) => {
+  try {
+    const share = await requireShare(req, res);
+    if (!share) return;
+    if (!shareStore.isUnlocked(share, readCookie(req, SHARE_COOKIE))) {
+      return res.status(401).type('html').send(renderShareUnavailable('Enter the passcode first.'));
+    }
+    res.setHeader('Cache-Control', 'no-store');
+    res.setHeader('Content-Security-Policy', 'sandbox allow-scripts allow-popups allow-forms');
+    res.type('html').send(share.html);
+  } catch (error) {
+    console.error('❌ [Share Store] Failed to serve share:', error);
+    res.status(500).type('html').send(renderShareUnavailable('Something went wrong loading this link.'));
+  }
+});
+
+// Usage and cost aggregated from the ledger
+// Optional query: from / to (ISO dates or timestamps), projectId
+app.get('/api/usage', async (req, res) => {
+  const parseTime = (value) => {
+    if (value === undefined) return undefined;
+    const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+    return Number.isNaN(time) ? NaN : time;
+  };
+  const from = parseTime(req.query.from);
+  const to = parseTime(req.query.to);
+  if (Number.isNaN(from) || Number.isNaN(to)) {
+    return res.status(400).json({ error: 'from and to must be dates or timestamps' });
+  }
+
+  try {
+    res.json(await usageLedger.summarize({ from, to, projectId: req.query.projectId }));
+  } catch (error) {
+    console.error('❌ [Usage Ledger] Failed to summarize usage:', error);
+    res.status(500).json({ error: 'Failed to load usage', details: error.message });
+  }
+});
+
+// Transcribe a voice recording for the prompt box
+// Body: the raw recording, with its Content-Type (audio/webm, audio/mp4, ...). Optional query: language (ISO 639-1)
+const MAX_RECORDING_BYTES = 25 * 1024 * 1024;
+
+app.post('/api/transcribe', express.raw({ type: 'audio/*', limit: MAX_RECORDING_BYTES }), async (req, res) => {
+  const mimeType = (req.headers['content-type'] || '').split(';')[0].trim().toLowerCase();
+  if (!AUDIO_MIME_TYPES.includes(mimeType)) {
+    return res.status(415).json({
+      error: 'Unsupported audio format',
+      details: `Expected one of: ${AUDIO_MIME_TYPES.join(', ')}`
+    });
+  }
+  if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+    return res.status(400).json({ error: 'The recording is empty' });
+  }
+
+  const { language } = req.query;
+  if (language !== undefined && !/^[a-z]{2}$/.test(language)) {
+    return res.status(400).json({ error: 'Invalid language', details: 'Expected a two-letter code such as "en"' });
+  }
+
+  if (!transcriber.isConfigured()) {
+    return res.status(500).json({
+      error: 'Transcriber not configured',
+      details: `Set PRISM_WHISPER_URL for the ${transcriber.name} transcriber`
+    });
+  }
+
+  try {
+    console.log('🎙️ [Prism Server] Transcribing recording:', `${(req.body.length / 1024).toFixed(0)} KB`, mimeType);
+    const { text } = await transcriber.transcribe({ audio: req.body, mimeType, language, signal: abortOnDisconnect(res) });
+    res.json({ text, transcriber: transcriber.name });
+  } catch (error) {
+    if (res.destroyed) return;
+    console.error('❌ [Transcriber] Failed to transcribe:', error);
+    res.status(502).json({ error: 'Failed to transcribe the recording', details: error.message });
+  }
+});
+
 // Health check endpoint
 app.get('/api/health', (req, res) => {
   res.json({ 
     status: 'OK', 
     message: 'Backend server is running',
     apiKeyConfigured: !!process.env.CLAUDE_API_KEY,
+    provider: provider.name,
+    providerConfigured: provider.isConfigured(),
+    transcriber: transcriber.name,
+    transcriberConfigured: transcriber.isConfigured(),
+    models: listModels(),
+    defaultModel: DEFAULT_MODEL_KEY,
     debug: {
       envPath,
       fileExists: fs.existsSync(envPath),
@@ -133,4 +1067,12 @@ app.get('/api/health', (req, res) => {
 app.listen(port, () => {
   console.log(`🚀 Backend server running on http://localhost:${port}`);
   console.log(`📡 API endpoint: http://localhost:${port}/api/generate`);
+  console.log(`🎨 Variants endpoint: http://localhost:${port}/api/variants`);
+  console.log(`🧵 Jobs endpoint: http://localhost:${port}/api/jobs`);
+  console.log(`🪄 Refine endpoint: http://localhost:${port}/api/refine`);
+  console.log(`💾 Projects endpoint: http://localhost:${port}/api/projects`);
+  console.log(`💰 Usage endpoint: http://localhost:${port}/api/usage`);
+  console.log(`🌐 Published sites: http://localhost:${port}/sites/<slug>/`);
+  console.log(`🔗 Share links: http://localhost:${port}/share/<token>`);
+  console.log(`🎙️ Transcribe endpoint: http://localhost:${port}/api/transcribe`);
 });
@@ -0,0 +1,24 @@
+// HTML that leaves Prism through the server - the counterpart of stripElementIds in
+// src/lib/documentTransform.ts for pages the client did not prepare, such as a shared revision.
+//
+// Elements carry data-prism-id attributes that style edits refer to (src/lib/elementIdentity.ts).
+// Only the ids a rule of the page's <style data-prism-edits> block uses are kept. Scripts, styles
+// and other raw text are left as they are; only their start tags lose the attribute.
+
+const ELEMENT_ID_ATTRIBUTE = 'data-prism-id';
+const EDITS_STYLE = /<style\b[^>]*\bdata-prism-edits\b[^>]*>([\s\S]*?)<\/style\s*>/i;
+const USED_ID = /data-prism-id="([\w-]+)"/g;
+// A raw text element as a whole (start tag, text, end tag), or any other start tag
+const TAG = /(<(script|style|textarea|title)\b[^>]*>)([\s\S]*?)(<\/\2\s*>)|<[a-zA-Z][^>]*>/gi;
+const ID_ATTRIBUTE = /\sdata-prism-id\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/gi;
+
+export const stripElementIds = (html) => {
+  if (!html.includes(ELEMENT_ID_ATTRIBUTE)) return html;
+  const rules = html.match(EDITS_STYLE)?.[1] || '';
+  const used = new Set([...rules.matchAll(USED_ID)].map(match => match[1]));
+  const stripTag = (tag) =>
+    tag.replace(ID_ATTRIBUTE, (attribute, doubleQuoted, singleQuoted, unquoted) =>
+      used.has(doubleQuoted ?? singleQuoted ?? unquoted) ? attribute : '');
+  return html.replace(TAG, (match, startTag, _name, text, endTag) =>
+    startTag ? stripTag(startTag) + text + endTag : stripTag(match));
+};
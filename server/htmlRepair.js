@@ -0,0 +1,379 @@
+// Validation and repair of generated HTML
+//
+// Model output is "usually" a complete document inside a ```html block. In practice it can carry
+// prose around the code, miss the doctype/head/body scaffolding, or stop mid-tag when the
+// output is cut off. repairHtml() extracts the markup, tokenizes it and rebuilds a well-formed
+// document, returning { html, fixes } where `fixes` lists every change it had to make.
+
+const VOID_ELEMENTS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'param', 'source', 'track', 'wbr']);
+// Elements whose content is not markup - everything up to the matching end tag is kept verbatim
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style', 'textarea', 'title']);
+// End tags browsers infer on their own, so closing them implicitly is not worth reporting
+const OPTIONAL_END_TAGS = new Set(['p', 'li', 'dt', 'dd', 'option', 'optgroup', 'tr', 'td', 'th', 'thead', 'tbody', 'tfoot', 'colgroup', 'rt', 'rp']);
+// Tags that may appear before <body> when a document omits its <head>
+const HEAD_ELEMENTS = new Set(['title', 'meta', 'link', 'style', 'script', 'base', 'noscript']);
+
+const isBlank = (text) => text.trim() === '';
+
+// Collects fix descriptions, folding repeats into "message (xN)"
+const createFixLog = () => {
+  const counts = new Map();
+  return {
+    add: (message) => counts.set(message, (counts.get(message) || 0) + 1),
+    list: () => [...counts].map(([message, count]) => count > 1 ? `${message} (x${count})` : message),
+  };
+};
+
+// Pull the markup out of the raw response, dropping code fences and surrounding prose
+const extractMarkup = (raw, fixes) => {
+  let text = raw;
+
+  const fence = raw.match(/```html[ \t]*\n?/i) || raw.match(/```[a-z]*[ \t]*\n/i);
+  if (fence) {
+    const start = fence.index + fence[0].length;
+    const end = raw.indexOf('```', start);
+    if (end === -1) {
+      fixes.add('Closed an unterminated ```html code block');
+    }
+    const outside = (raw.slice(0, fence.index) + (end === -1 ? '' : raw.slice(end + 3))).trim();
+    if (outside) {
+      fixes.add(`Removed ${outside.length} characters of prose around the code block`);
+    }
+    text = raw.slice(start, end === -1 ? undefined : end);
+  }
+
+  const docStart = text.search(/<(!doctype|!--|[a-z])/i);
+  if (docStart === -1) {
+    throw new Error('The model response did not contain any HTML');
+  }
+  if (!isBlank(text.slice(0, docStart))) {
+    fixes.add('Removed prose before the document');
+  }
+  text = text.slice(docStart);
+
+  const htmlEnd = [...text.matchAll(/<\/html\s*>/gi)].pop();
+  if (htmlEnd) {
+    const end = htmlEnd.index + htmlEnd[0].length;
+    if (!isBlank(text.slice(end))) {
+      fixes.add('Removed prose after </html>');
+    }
+    text = text.slice(0, end);
+  }
+
+  return text;
+};
+
+// Index of the `>` closing a tag, skipping quoted attribute values; -1 if the tag never ends
+const findTagEnd = (html, from) => {
+  let quote = null;
+  for (let i = from; i < html.length; i++) {
+    const char = html[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '>') {
+      return i;
+    }
+  }
+  return -1;
+};
+
+const TAG_NAME_RE = /<(\/?)([a-zA-Z][a-zA-Z0-9-]*)/y;
+
+// Split markup into doctype, comment, start, end and text tokens
+const tokenize = (html, fixes) => {
+  const tokens = [];
+  let i = 0;
+
+  while (i < html.length) {
+    const lt = html.indexOf('<', i);
+    if (lt === -1) {
+      tokens.push({ type: 'text', value: html.slice(i) });
+      break;
+    }
+    if (lt > i) {
+      tokens.push({ type: 'text', value: html.slice(i, lt) });
+    }
+
+    if (html.startsWith('<!--', lt)) {
+      const end = html.indexOf('-->', lt + 4);
+      if (end === -1) {
+        fixes.add('Closed an unterminated comment');
+        tokens.push({ type: 'comment', value: `${html.slice(lt)}-->` });
+        break;
+      }
+      tokens.push({ type: 'comment', value: html.slice(lt, end + 3) });
+      i = end + 3;
+      continue;
+    }
+
+    if (/^<!doctype/i.test(html.slice(lt, lt + 9))) {
+      const end = html.indexOf('>', lt);
+      if (end === -1) {
+        break;
+      }
+      tokens.push({ type: 'doctype', value: html.slice(lt, end + 1) });
+      i = end + 1;
+      continue;
+    }
+
+    TAG_NAME_RE.lastIndex = lt;
+    const tag = TAG_NAME_RE.exec(html);
+    if (!tag) {
+      // A literal "<" in text content
+      tokens.push({ type: 'text', value: '<' });
+      i = lt + 1;
+      continue;
+    }
+
+    const name = tag[2].toLowerCase();
+    const end = findTagEnd(html, lt + tag[0].length);
+    if (end === -1) {
+      fixes.add(`Removed a truncated <${tag[1]}${name}> tag at the end of the document`);
+      break;
+    }
+    const value = html.slice(lt, end + 1);
+    i = end + 1;
+
+    if (tag[1]) {
+      tokens.push({ type: 'end', name, value });
+      continue;
+    }
+
+    const selfClosing = /\/\s*>$/.test(value);
+    tokens.push({ type: 'start', name, value, selfClosing });
+
+    if (RAW_TEXT_ELEMENTS.has(name) && !selfClosing) {
+      const closeRe = new RegExp(`</${name}\\s*>`, 'gi');
+      closeRe.lastIndex = i;
+      const close = closeRe.exec(html);
+      if (!close) {
+        fixes.add(`Closed an unterminated <${name}> at the end of the document`);
+        tokens.push({ type: 'text', value: html.slice(i), raw: true });
+        tokens.push({ type: 'end', name, value: `</${name}>` });
+        break;
+      }
+      tokens.push({ type: 'text', value: html.slice(i, close.index), raw: true });
+      tokens.push({ type: 'end', name, value: close[0] });
+      i = close.index + close[0].length;
+    }
+  }
+
+  return tokens;
+};
+
+// Rebuild the document from tokens, adding missing scaffolding and balancing tags
+const buildDocument = (tokens, fixes) => {
+  const out = [];
+  const stack = [];
+  const hasStart = (name) => tokens.some(token => token.type === 'start' && token.name === name);
+  const documentHasBody = hasStart('body');
+  let mode = 'initial'; // initial -> before-head -> head -> after-head -> body -> after-body
+  let htmlClosed = false;
+
+  // Pop elements down to (not including) `name`, emitting end tags for anything left open
+  const closeDownTo = (name, reason) => {
+    const unclosed = [];
+    while (stack.length > 0 && stack[stack.length - 1] !== name) {
+      const open = stack.pop();
+      out.push(`</${open}>`);
+      if (!OPTIONAL_END_TAGS.has(open)) unclosed.push(open);
+    }
+    if (unclosed.length > 0) {
+      fixes.add(`Closed unclosed ${unclosed.map(open => `<${open}>`).join(', ')} ${reason}`);
+    }
+  };
+
+  const doctype = tokens.find(token => token.type === 'doctype');
+  if (doctype) {
+    out.push(doctype.value);
+  } else {
+    fixes.add('Added missing <!DOCTYPE html>');
+    out.push('<!DOCTYPE html>');
+  }
+
+  // Regular start/end/text handling inside <head> or <body>
+  const processContent = (token, boundary) => {
+    if (token.type === 'text' || token.type === 'comment') {
+      out.push(token.value);
+    } else if (token.type === 'start') {
+      out.push(token.value);
+      if (!VOID_ELEMENTS.has(token.name) && !token.selfClosing) stack.push(token.name);
+    } else if (token.type === 'end') {
+      const index = stack.lastIndexOf(token.name);
+      if (index === -1 || index < stack.lastIndexOf(boundary) || VOID_ELEMENTS.has(token.name)) {
+        fixes.add(`Removed stray </${token.name}>`);
+        return;
+      }
+      closeDownTo(token.name, `before </${token.name}>`);
+      stack.pop();
+      out.push(token.value);
+    }
+  };
+
+  let i = 0;
+  while (i < tokens.length) {
+    const token = tokens[i];
+    const blank = (token.type === 'text' && isBlank(token.value)) || token.type === 'comment';
+
+    if (token.type === 'doctype') {
+      i++;
+      continue;
+    }
+
+    switch (mode) {
+      case 'initial':
+        if (blank) {
+          out.push(token.value);
+        } else if (token.type === 'start' && token.name === 'html') {
+          out.push(token.value);
+          stack.push('html');
+          mode = 'before-head';
+        } else {
+          fixes.add('Added missing <html>');
+          out.push('\n<html lang="en">');
+          stack.push('html');
+          mode = 'before-head';
+          continue;
+        }
+        break;
+
+      case 'before-head':
+        if (blank) {
+          out.push(token.value);
+        } else if (token.type === 'start' && token.name === 'head') {
+          out.push(token.value);
+          stack.push('head');
+          mode = 'head';
+        } else if (token.type === 'start' && HEAD_ELEMENTS.has(token.name)) {
+          fixes.add('Added missing <head>');
+          out.push('\n<head>');
+          stack.push('head');
+          mode = 'head';
+          continue;
+        } else {
+          fixes.add('Added missing <head>');
+          out.push('\n<head>\n<meta charset="UTF-8">\n</head>');
+          mode = 'after-head';
+          continue;
+        }
+        break;
+
+      case 'head':
+        if (token.type === 'end' && token.name === 'head') {
+          closeDownTo('head', 'before </head>');
+          stack.pop();
+          out.push(token.value);
+          mode = 'after-head';
+        } else if (token.type === 'start' && (token.name === 'body' || !HEAD_ELEMENTS.has(token.name)) && stack[stack.length - 1] === 'head') {
+          if (hasStart('head')) fixes.add('Closed <head> before the page content');
+          stack.pop();
+          out.push('\n</head>');
+          mode = 'after-head';
+          continue;
+        } else if (token.type === 'text' && !token.raw && !blank && stack[stack.length - 1] === 'head') {
+          fixes.add('Removed prose inside <head>');
+        } else {
+          processContent(token, 'head');
+        }
+        break;
+
+      case 'after-head':
+        if (blank) {
+          out.push(token.value);
+        } else if (token.type === 'start' && token.name === 'body') {
+          out.push(token.value);
+          stack.push('body');
+          mode = 'body';
+        } else if (token.type === 'text' && documentHasBody) {
+          fixes.add('Removed prose between </head> and <body>');
+        } else {
+          fixes.add('Added missing <body>');
+          out.push('\n<body>');
+          stack.push('body');
+          mode = 'body';
+          continue;
+        }
+        break;
+
+      case 'body':
+        if (token.type === 'end' && (token.name === 'body' || token.name === 'html')) {
+          closeDownTo('body', `before </${token.name}>`);
+          stack.pop();
+          // </html> alone implies </body>
+          out.push(token.name === 'body' ? token.value : '</body>');
+          mode = 'after-body';
+          continue;
+        } else if (token.type === 'start' && ['html', 'head', 'body'].includes(token.name)) {
+          fixes.add(`Removed duplicate <${token.name}>`);
+        } else {
+          processContent(token, 'body');
+        }
+        break;
+
+      case 'after-body':
+        if (token.type === 'end' && token.name === 'html') {
+          if (!htmlClosed) {
+            closeDownTo('html', 'before </html>');
+            out.push(token.value);
+            htmlClosed = true;
+          }
+        } else if (token.type === 'end' && token.name === 'body') {
+          // Already closed
+        } else if (token.type === 'text' && !blank) {
+          fixes.add('Removed prose after </body>');
+        } else if (blank) {
+          out.push(token.value);
+        } else {
+          // Browsers move stray markup after </body> back into the body, so it is kept as-is
+          processContent(token, 'html');
+        }
+        break;
+    }
+    i++;
+  }
+
+  // Finish whatever structure the tokens did not provide
+  if (mode === 'initial' || mode === 'before-head') {
+    if (mode === 'initial') {
+      out.push('\n<html lang="en">');
+      stack.push('html');
+    }
+    fixes.add('Added missing <head>');
+    out.push('\n<head>\n<meta charset="UTF-8">\n</head>');
+    mode = 'after-head';
+  }
+  if (mode === 'head') {
+    closeDownTo('head', 'at the end of the document');
+    stack.pop();
+    out.push('\n</head>');
+    mode = 'after-head';
+  }
+  if (mode === 'after-head') {
+    fixes.add('Added missing <body>');
+    out.push('\n<body>');
+    stack.push('body');
+  }
+
+  if (mode !== 'after-body') {
+    closeDownTo('body', 'at the end of the document');
+    stack.pop();
+    fixes.add('Added missing </body>');
+    out.push('\n</body>');
+  }
+  if (!htmlClosed) {
+    closeDownTo('html', 'at the end of the document');
+    fixes.add('Added missing </html>');
+    out.push('\n</html>');
+  }
+
+  return out.join('');
+};
+
+export const repairHtml = (rawResponse) => {
+  const fixes = createFixLog();
+  const markup = extractMarkup(rawResponse, fixes);
+  const html = buildDocument(tokenize(markup, fixes), fixes);
+  return { html, fixes: fixes.list() };
+};
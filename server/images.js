@@ -0,0 +1,54 @@
+// Reference images sent along with a prompt (screenshot-to-code, wireframes, mood boards).
+//
+// Clients send `images: [{ mediaType, data }]` with base64 data (no data: URL prefix). The browser
+// downscales before uploading, so anything near these limits was not sent by the Prism client.
+
+export const MAX_IMAGES = 4;
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024; // Per image, decoded - the model API limit
+
+// Leading bytes of each accepted format, used to check that the data matches its media type
+const SIGNATURES = {
+  'image/png': [[0x89, 0x50, 0x4e, 0x47]],
+  'image/jpeg': [[0xff, 0xd8, 0xff]],
+  'image/gif': [[0x47, 0x49, 0x46, 0x38]],
+  'image/webp': [[0x52, 0x49, 0x46, 0x46]], // RIFF; "WEBP" follows at offset 8
+};
+
+export const IMAGE_MEDIA_TYPES = Object.keys(SIGNATURES);
+
+const BASE64_PATTERN = /^[A-Za-z0-9+/]+={0,2}$/;
+
+const matchesSignature = (bytes, mediaType) => {
+  const matches = SIGNATURES[mediaType].some(signature => signature.every((byte, index) => bytes[index] === byte));
+  if (!matches) return false;
+  return mediaType !== 'image/webp' || bytes.subarray(8, 12).toString('ascii') === 'WEBP';
+};
+
+// Check the `images` field of a request body; returns { images } (possibly empty) or { problem }
+export const validateImages = (images) => {
+  if (images === undefined || images === null) return { images: [] };
+  if (!Array.isArray(images)) return { problem: 'images must be an array' };
+  if (images.length > MAX_IMAGES) return { problem: `At most ${MAX_IMAGES} images can be sent with a prompt` };
+
+  for (const [index, image] of images.entries()) {
+    const label = `Image ${index + 1}`;
+    if (!image || typeof image !== 'object' || typeof image.data !== 'string') {
+      return { problem: `${label} must be an object with mediaType and base64 data` };
+    }
+    if (!IMAGE_MEDIA_TYPES.includes(image.mediaType)) {
+      return { problem: `${label} has unsupported type "${image.mediaType}" - expected one of: ${IMAGE_MEDIA_TYPES.join(', ')}` };
+    }
+    if (!BASE64_PATTERN.test(image.data)) {
+      return { problem: `${label} is not valid base64 data` };
+    }
+    const bytes = Buffer.from(image.data, 'base64');
+    if (bytes.length > MAX_IMAGE_BYTES) {
+      return { problem: `${label} is ${(bytes.length / 1024 / 1024).toFixed(1)} MB - the limit is ${MAX_IMAGE_BYTES / 1024 / 1024} MB` };
+    }
+    if (!matchesSignature(bytes, image.mediaType)) {
+      return { problem: `${label} does not contain ${image.mediaType} data` };
+    }
+  }
+
+  return { images: images.map(({ mediaType, data }) => ({ mediaType, data })) };
+};
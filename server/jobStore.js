@@ -0,0 +1,158 @@
+// Server-side generation jobs
+//
+// A job outlives the request that created it: the model call keeps running when the browser
+// reloads, and clients poll GET /api/jobs/:id or follow GET /api/jobs/:id/events to pick it up again.
+// Jobs are written to jobs/<id>.json under the data directory when they are created and when they
+// finish; progress and the partial document only live in memory.
+import crypto from 'crypto';
+import { EventEmitter } from 'events';
+import fs from 'fs';
+import { join } from 'path';
+import { writeFileAtomic } from './projectStore.js';
+
+export const JOB_STATUSES = ['running', 'succeeded', 'failed', 'cancelled'];
+
+// Finished jobs are kept this long so a reloaded page can still collect the result
+const JOB_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+// SSE event a finished job ends with
+const TERMINAL_EVENTS = { succeeded: 'done', failed: 'error', cancelled: 'cancelled' };
+
+const ID_PATTERN = /^[a-f0-9-]{36}$/;
+
+export const isValidJobId = (id) => typeof id === 'string' && ID_PATTERN.test(id);
+
+// The last event of a finished job, replayed to clients that subscribe after the fact
+export const terminalEvent = (job) => {
+  const event = TERMINAL_EVENTS[job.status];
+  if (!event) return null;
+  if (event === 'done') return { event, data: job.result };
+  if (event === 'error') return { event, data: job.error };
+  return { event, data: { id: job.id } };
+};
+
+// Job without the heavy fields, for listings
+const summarize = ({ partialCode, result, prompt, ...job }) => ({
+  ...job,
+  promptLength: prompt.length,
+  hasResult: !!result,
+});
+
+export const createJobStore = ({ dir }) => {
+  const jobsDir = join(dir, 'jobs');
+  fs.mkdirSync(jobsDir, { recursive: true });
+
+  const jobs = new Map();
+  const controllers = new Map();
+  const events = new EventEmitter();
+  events.setMaxListeners(0); // One listener per open /events connection
+
+  const jobFile = (id) => join(jobsDir, `${id}.json`);
+
+  const persist = (job) => {
+    const { partialCode, ...record } = job;
+    return writeFileAtomic(jobFile(job.id), JSON.stringify(record))
+      .catch(error => console.error('❌ [Job Store] Failed to save job:', job.id, error));
+  };
+
+  // Reload finished jobs; a job that was running when the server stopped can never finish
+  fs.readdirSync(jobsDir).filter(file => file.endsWith('.json')).forEach(file => {
+    try {
+      const job = JSON.parse(fs.readFileSync(join(jobsDir, file), 'utf8'));
+      if (Date.now() - job.updatedAt > JOB_RETENTION_MS) {
+        fs.rmSync(join(jobsDir, file), { force: true });
+        return;
+      }
+      if (job.status === 'running') {
+        Object.assign(job, {
+          status: 'failed',
+          error: { error: 'Failed to generate interface', details: 'The server restarted before the generation finished' },
+          updatedAt: Date.now(),
+          finishedAt: Date.now(),
+        });
+        persist(job);
+      }
+      jobs.set(job.id, { ...job, partialCode: '' });
+    } catch (error) {
+      console.error('❌ [Job Store] Skipping unreadable job file:', file, error.message);
+    }
+  });
+
+  const emit = (job, event, data) => events.emit(job.id, { event, data });
+
+  return {
+    // Returns the new job and the signal that cancel() aborts
+    create: ({ kind, projectId, model, prompt, imageCount = 0 }) => {
+      const now = Date.now();
+      const job = {
+        id: crypto.randomUUID(),
+        kind,
+        projectId,
+        model,
+        prompt,
+        imageCount,
+        status: 'running',
+        progress: { outputChars: 0, estimatedTokens: 0, sections: [], continuations: 0 },
+        partialCode: '',
+        usage: null,
+        result: null,
+        error: null,
+        createdAt: now,
+        updatedAt: now,
+        finishedAt: null,
+      };
+      const controller = new AbortController();
+      jobs.set(job.id, job);
+      controllers.set(job.id, controller);
+      persist(job);
+      return { job, signal: controller.signal };
+    },
+
+    get: (id) => jobs.get(id) || null,
+
+    // Newest first; `status` narrows the list
+    list: ({ status } = {}) =>
+      [...jobs.values()]
+        .filter(job => !status || job.status === status)
+        .sort((a, b) => b.createdAt - a.createdAt)
+        .map(summarize),
+
+    // Record a progress event of a running job and forward it to subscribers
+    publish: (id, event, data) => {
+      const job = jobs.get(id);
+      if (!job || job.status !== 'running') return;
+      if (event === 'progress') job.progress = { ...job.progress, ...data };
+      if (event === 'html') job.partialCode = data.code;
+      if (event === 'continuation') job.progress = { ...job.progress, continuations: data.continuations };
+      if (event === 'usage') job.usage = data;
+      job.updatedAt = Date.now();
+      emit(job, event, data);
+    },
+
+    // Move a running job to succeeded / failed / cancelled with its `result` or `error`
+    finish: (id, status, { result = null, error = null } = {}) => {
+      const job = jobs.get(id);
+      if (!job || job.status !== 'running') return;
+      const now = Date.now();
+      Object.assign(job, { status, result, error, partialCode: '', updatedAt: now, finishedAt: now });
+      controllers.delete(id);
+      persist(job);
+      const { event, data } = terminalEvent(job);
+      emit(job, event, data);
+    },
+
+    // Abort the model call of a running job; false if there is nothing to cancel
+    cancel: (id) => {
+      const controller = controllers.get(id);
+      if (!controller) return false;
+      controller.abort();
+      return true;
+    },
+
+    // Listen to the events of one job, returns the unsubscribe function
+    subscribe: (id, listener) => {
+      events.on(id, listener);
+      return () => events.off(id, listener);
+    },
+  };
+};
@@ -0,0 +1,44 @@
+// Model registry - maps the model keys used by the UI to real Anthropic model ids,
+// output limits and prices. Prices are USD per million tokens.
+
+export const MODELS = {
+  'claude-4': {
+    id: 'claude-sonnet-4-20250514',
+    label: 'Claude 4 Sonnet',
+    description: 'Default - Best Quality',
+    maxTokens: 16000,
+    pricing: { input: 3, output: 15 },
+  },
+  'claude-3-5-haiku': {
+    id: 'claude-3-5-haiku-20241022',
+    label: 'Claude 3.5 Haiku',
+    description: 'Cheapest - Fast',
+    maxTokens: 8192,
+    pricing: { input: 0.8, output: 4 },
+  },
+};
+
+export const DEFAULT_MODEL_KEY = 'claude-4';
+
+// Returns the registry entry for a UI model key, or null if the key is unknown.
+// A missing key falls back to the default model.
+export const resolveModel = (key) => {
+  const modelKey = key || DEFAULT_MODEL_KEY;
+  // Own keys only - "constructor" and friends are not models
+  return Object.hasOwn(MODELS, modelKey) ? { key: modelKey, ...MODELS[modelKey] } : null;
+};
+
+export const estimateCost = (model, usage) =>
+  (usage.input_tokens * model.pricing.input / 1000000) +
+  (usage.output_tokens * model.pricing.output / 1000000);
+
+// Public description of the registry, served by /api/health for the model dropdown
+export const listModels = () =>
+  Object.entries(MODELS).map(([key, model]) => ({
+    key,
+    label: model.label,
+    description: model.description,
+    maxTokens: model.maxTokens,
+    pricing: model.pricing,
+    isDefault: key === DEFAULT_MODEL_KEY,
+  }));
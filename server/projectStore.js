@@ -0,0 +1,155 @@
+// File-backed project store
+//
+// Layout under the data directory:
+//   projects/<id>.json    - SavedDesign fields (code, prompt, edits, revisions, alternates, ...) without the thumbnail
+//   thumbnails/<id>.jpg   - thumbnail image, decoded from the data URL the client renders
+// Every write goes to a temp file first and is renamed into place, so a crash never leaves half a project.
+import crypto from 'crypto';
+import fs from 'fs';
+import { join } from 'path';
+
+const ID_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+const DATA_URL_PATTERN = /^data:image\/(jpeg|png);base64,(.+)$/;
+
+export const isValidProjectId = (id) => typeof id === 'string' && ID_PATTERN.test(id);
+
+// Reasons a project payload is rejected, empty when it is valid
+export const validateProject = (project, { partial = false } = {}) => {
+  const problems = [];
+  if (!project || typeof project !== 'object' || Array.isArray(project)) {
+    return ['Project must be an object'];
+  }
+  const check = (field, valid, message) => {
+    if ((!partial || field in project) && !valid(project[field])) problems.push(message);
+  };
+  check('prompt', value => typeof value === 'string' && value.length > 0, 'prompt must be a non-empty string');
+  check('code', value => typeof value === 'string' && value.length > 0, 'code must be a non-empty string');
+  check('timestamp', value => Number.isFinite(value), 'timestamp must be a number');
+  if ('edits' in project && !Array.isArray(project.edits)) problems.push('edits must be an array');
+  if ('editHistory' in project && !(Array.isArray(project.editHistory?.undo) && Array.isArray(project.editHistory?.redo))) {
+    problems.push('editHistory must have undo and redo arrays');
+  }
+  if ('revisions' in project && !Array.isArray(project.revisions)) problems.push('revisions must be an array');
+  if ('alternates' in project && !Array.isArray(project.alternates)) problems.push('alternates must be an array');
+  return problems;
+};
+
+export const writeFileAtomic = async (file, data) => {
+  const tmp = `${file}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+  await fs.promises.writeFile(tmp, data);
+  await fs.promises.rename(tmp, file);
+};
+
+// withLock(key, task) runs task once the tasks queued earlier for the same key have settled
+export const createKeyedLock = () => {
+  const locks = new Map();
+  return (key, task) => {
+    const run = (locks.get(key) || Promise.resolve()).then(task, task);
+    const settled = run.catch(() => {});
+    locks.set(key, settled);
+    settled.then(() => {
+      if (locks.get(key) === settled) locks.delete(key);
+    });
+    return run;
+  };
+};
+
+export const createProjectStore = ({ dir }) => {
+  const projectsDir = join(dir, 'projects');
+  const thumbnailsDir = join(dir, 'thumbnails');
+  fs.mkdirSync(projectsDir, { recursive: true });
+  fs.mkdirSync(thumbnailsDir, { recursive: true });
+
+  const projectFile = (id) => join(projectsDir, `${id}.json`);
+  const thumbnailFile = (id) => join(thumbnailsDir, `${id}.jpg`);
+
+  // One write per project at a time: a patch reads the record and merges into it, so overlapping
+  // patches of different fields (the design sync and the edit store) must not start from the same copy
+  const withLock = createKeyedLock();
+
+  // Clients get a URL for the thumbnail; the version query busts caches when it changes
+  const toClient = (record) => {
+    const { thumbnailUpdatedAt, ...project } = record;
+    return thumbnailUpdatedAt
+      ? { ...project, thumbnail: `/api/projects/${project.id}/thumbnail?v=${thumbnailUpdatedAt}` }
+      : project;
+  };
+
+  const readRecord = async (id) => {
+    try {
+      return JSON.parse(await fs.promises.readFile(projectFile(id), 'utf8'));
+    } catch (error) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  };
+
+  // Only data URLs carry new image data - a URL we handed out earlier means "unchanged"
+  const writeThumbnail = async (id, thumbnail) => {
+    const match = typeof thumbnail === 'string' && thumbnail.match(DATA_URL_PATTERN);
+    if (!match) return null;
+    await writeFileAtomic(thumbnailFile(id), Buffer.from(match[2], 'base64'));
+    return Date.now();
+  };
+
+  const save = async (id, fields, existing) => {
+    const { thumbnail, ...rest } = fields;
+    const thumbnailUpdatedAt = await writeThumbnail(id, thumbnail);
+    const record = {
+      ...existing,
+      ...rest,
+      id,
+      thumbnailUpdatedAt: thumbnailUpdatedAt || existing?.thumbnailUpdatedAt,
+    };
+    await writeFileAtomic(projectFile(id), JSON.stringify(record));
+    return toClient(record);
+  };
+
+  return {
+    // Newest first, like the dashboard shows them
+    list: async () => {
+      const files = (await fs.promises.readdir(projectsDir)).filter(file => file.endsWith('.json'));
+      const records = await Promise.all(files.map(async (file) => {
+        try {
+          return JSON.parse(await fs.promises.readFile(join(projectsDir, file), 'utf8'));
+        } catch (error) {
+          console.error('❌ [Project Store] Skipping unreadable project file:', file, error.message);
+          return null;
+        }
+      }));
+      return records
+        .filter(Boolean)
+        .sort((a, b) => b.timestamp - a.timestamp)
+        .map(toClient);
+    },
+
+    get: async (id) => {
+      const record = await readRecord(id);
+      return record && toClient(record);
+    },
+
+    // Create or replace (an existing thumbnail is kept unless a new one is sent)
+    put: (id, project) => withLock(id, async () => {
+      const existing = await readRecord(id);
+      return save(id, project, existing && { thumbnailUpdatedAt: existing.thumbnailUpdatedAt });
+    }),
+
+    // Merge the given fields into an existing project, null if it does not exist
+    patch: (id, fields) => withLock(id, async () => {
+      const existing = await readRecord(id);
+      return existing ? save(id, fields, existing) : null;
+    }),
+
+    remove: (id) => withLock(id, async () => {
+      const existed = fs.existsSync(projectFile(id));
+      await fs.promises.rm(projectFile(id), { force: true });
+      await fs.promises.rm(thumbnailFile(id), { force: true });
+      return existed;
+    }),
+
+    thumbnailPath: (id) => {
+      const file = thumbnailFile(id);
+      return fs.existsSync(file) ? file : null;
+    },
+  };
+};
@@ -0,0 +1,56 @@
+// Anthropic adapter - the production provider
+import Anthropic from '@anthropic-ai/sdk';
+import { defineProvider, estimateTokens, GenerationAbortedError } from './base.js';
+
+export const createAnthropicProvider = ({ apiKey }) => {
+  const anthropic = new Anthropic({ apiKey });
+
+  const complete = async ({ model, messages, onText, signal }) => {
+    const params = {
+      model: model.id,
+      max_tokens: model.maxTokens,
+      messages,
+    };
+
+    // Always stream, even without onText, so a cancelled call still knows what it produced
+    const stream = anthropic.messages.stream(params, { signal });
+    let snapshot = '';
+    stream.on('text', (delta, textSnapshot) => {
+      snapshot = textSnapshot;
+      onText?.(delta, textSnapshot);
+    });
+
+    let message;
+    try {
+      message = await stream.finalMessage();
+    } catch (error) {
+      if (signal?.aborted) {
+        // Input is billed once the request started; output only reports its final count at the end
+        const usage = stream.currentMessage?.usage;
+        throw new GenerationAbortedError({
+          text: snapshot,
+          usage: {
+            input_tokens: usage?.input_tokens || 0,
+            output_tokens: Math.max(usage?.output_tokens || 0, estimateTokens(snapshot)),
+          },
+        });
+      }
+      throw error;
+    }
+
+    return {
+      text: message.content
+        .filter(block => block.type === 'text')
+        .map(block => block.text)
+        .join(''),
+      usage: message.usage,
+      stopReason: message.stop_reason,
+    };
+  };
+
+  return defineProvider({
+    name: 'anthropic',
+    isConfigured: () => !!apiKey,
+    complete,
+  });
+};
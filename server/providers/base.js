@@ -0,0 +1,138 @@
+// Shared shape of every LLM provider.
+//
+// An adapter only implements `complete({ model, messages, onText, signal })`, which resolves to
+//   { text, usage: { input_tokens, output_tokens }, stopReason }
+// and calls `onText(delta, snapshot)` as text arrives when a callback is given.
+// defineProvider() builds the task-level methods the routes use on top of it:
+//   generate({ model, prompt, images, ... })   - new page from an (already enhanced) prompt and
+//                                                optional reference images ({ mediaType, data })
+//   refine({ model, html, instruction, ... })  - updated page from the current HTML + an instruction
+// The task methods continue truncated documents automatically (see completeDocument) and
+// resolve to { text, usage, stopReason, continuations, truncated }.
+
+// Thrown by adapters when the caller's AbortSignal fires. `partial` carries what was produced
+// (and billed) before the abort: { text, usage, continuations }.
+export class GenerationAbortedError extends Error {
+  constructor(partial) {
+    super('Generation was cancelled');
+    this.name = 'GenerationAbortedError';
+    this.partial = { continuations: 0, ...partial };
+  }
+}
+
+// Rough token count for text whose usage the API has not reported yet
+export const estimateTokens = (text) => Math.ceil(text.length / 4);
+
+// Follow-up requests allowed when the model stops before the document is finished
+export const MAX_CONTINUATIONS = 3;
+
+// Did the model stop before finishing the page?
+export const isTruncated = (text, stopReason) =>
+  stopReason === 'max_tokens' || (/<html[\s>]/i.test(text) && !/<\/html>/i.test(text));
+
+const addUsage = (total, usage) => ({
+  input_tokens: total.input_tokens + (usage?.input_tokens || 0),
+  output_tokens: total.output_tokens + (usage?.output_tokens || 0),
+});
+
+// Run a completion and, while the output is cut off, ask the model to carry on from where it
+// stopped by prefilling its partial answer as an assistant turn. The chunks are stitched
+// into one response; `onText` sees a single growing snapshot across all requests and
+// `onContinue(count)` fires before each follow-up request.
+export const completeDocument = async (complete, { model, messages, onText, onContinue, signal, maxContinuations = MAX_CONTINUATIONS }) => {
+  let text = '';
+  let usage = { input_tokens: 0, output_tokens: 0 };
+  let stopReason = null;
+  let continuations = 0;
+
+  while (true) {
+    // The API rejects assistant prefill that ends in whitespace
+    const prefix = text.trimEnd();
+    let result;
+    try {
+      result = await complete({
+        model,
+        messages: continuations === 0 ? messages : [...messages, { role: 'assistant', content: prefix }],
+        onText: onText && ((delta, snapshot) => onText(delta, prefix + snapshot)),
+        signal,
+      });
+    } catch (error) {
+      // Report everything billed so far, including earlier continuations
+      if (error instanceof GenerationAbortedError) {
+        throw new GenerationAbortedError({
+          text: prefix + error.partial.text,
+          usage: addUsage(usage, error.partial.usage),
+          continuations,
+        });
+      }
+      throw error;
+    }
+
+    text = continuations === 0 ? result.text : prefix + result.text;
+    usage = addUsage(usage, result.usage);
+    stopReason = result.stopReason;
+
+    const stalled = continuations > 0 && !result.text.trim();
+    if (stalled || !isTruncated(text, stopReason) || continuations >= maxContinuations) break;
+
+    continuations += 1;
+    console.log(`🔁 [Provider] Output truncated (${stopReason}) - requesting continuation ${continuations}/${maxContinuations}`);
+    onContinue?.(continuations);
+  }
+
+  return { text, usage, stopReason, continuations, truncated: isTruncated(text, stopReason) };
+};
+
+export const buildRefinePrompt = (html, instruction) => `You are refining an existing single-file HTML page.
+
+Apply this change request from the designer:
+"${instruction}"
+
+Rules:
+- Keep everything the request does not mention exactly as it is (content, structure, styles, scripts).
+- Keep the data-prism-id attribute of every element you keep; elements you add do not need one.
+- Return the COMPLETE updated document, from <!DOCTYPE html> to </html>, in a single \`\`\`html code block.
+- Do not add explanations outside the code block.
+
+Current document:
+\`\`\`html
+${html}
+\`\`\``;
+
+const IMAGE_INSTRUCTIONS = `The attached image is the visual reference for this page (a screenshot, wireframe or mood board).
+Match its layout, section order, color palette, typography and spacing as closely as you can, and reuse any
+readable text from it. Where the request below and the image disagree, follow the request.`;
+
+// User message content for a prompt: plain text, or the images followed by the prompt as content blocks
+export const buildPromptContent = (prompt, images = []) => {
+  if (images.length === 0) return prompt;
+  return [
+    ...images.map(image => ({
+      type: 'image',
+      source: { type: 'base64', media_type: image.mediaType, data: image.data },
+    })),
+    { type: 'text', text: `${IMAGE_INSTRUCTIONS}\n\n${prompt}` },
+  ];
+};
+
+export const defineProvider = ({ name, isConfigured = () => true, complete }) => {
+  const generate = ({ model, prompt, images, onText, onContinue, signal }) =>
+    completeDocument(complete, {
+      model,
+      messages: [{ role: 'user', content: buildPromptContent(prompt, images) }],
+      onText,
+      onContinue,
+      signal,
+    });
+
+  const refine = ({ model, html, instruction, onText, onContinue, signal }) =>
+    completeDocument(complete, {
+      model,
+      messages: [{ role: 'user', content: buildRefinePrompt(html, instruction) }],
+      onText,
+      onContinue,
+      signal,
+    });
+
+  return { name, isConfigured, complete, generate, refine };
+};
@@ -0,0 +1,99 @@
+// Fixture provider - replays recorded responses from disk so the editor, demos and
+// end-to-end runs of /api/generate work offline and deterministically.
+//
+// Responses live in the fixtures directory as `<hash>.html`, where the hash is
+// fixtureKey(messages). A request without a recording gets `_default.html`.
+// Record new fixtures by running the Anthropic provider with PRISM_RECORD_FIXTURES=1.
+// PRISM_FIXTURE_DELAY_MS slows the replay down to live-model speed (e.g. to try cancelling).
+import crypto from 'crypto';
+import fs from 'fs';
+import { join } from 'path';
+import { defineProvider, estimateTokens, GenerationAbortedError } from './base.js';
+
+const DEFAULT_FIXTURE = '_default.html';
+const CHUNK_SIZE = 512;
+// What a full-size image costs the live API, roughly - base64 length says nothing about it
+const IMAGE_TOKENS = 1600;
+
+const messageText = (content) =>
+  typeof content === 'string'
+    ? content
+    : content.map(block => block.type === 'text' ? block.text : JSON.stringify(block)).join('\n');
+
+const estimateInputTokens = (messages) =>
+  messages.reduce((total, { content }) => total + (typeof content === 'string'
+    ? estimateTokens(content)
+    : content.reduce((sum, block) => sum + (block.type === 'text' ? estimateTokens(block.text) : IMAGE_TOKENS), 0)), 0);
+
+// Prompt hash the fixtures are keyed by
+export const fixtureKey = (messages) =>
+  crypto
+    .createHash('sha256')
+    .update(messages.map(message => `${message.role}: ${messageText(message.content)}`).join('\n\n'))
+    .digest('hex')
+    .slice(0, 16);
+
+export const fixturePath = (dir, messages) => join(dir, `${fixtureKey(messages)}.html`);
+
+export const createFixtureProvider = ({ dir, chunkDelayMs = 0 }) => {
+  const complete = async ({ messages, onText, signal }) => {
+    const recorded = fixturePath(dir, messages);
+    // A continuation request (assistant prefill) without its own recording has nothing left to replay
+    if (!fs.existsSync(recorded) && messages[messages.length - 1].role === 'assistant') {
+      return { text: '', usage: { input_tokens: 0, output_tokens: 0 }, stopReason: 'end_turn' };
+    }
+    const file = fs.existsSync(recorded) ? recorded : join(dir, DEFAULT_FIXTURE);
+    if (!fs.existsSync(file)) {
+      throw new Error(`No fixture recorded for prompt hash ${fixtureKey(messages)} and no ${DEFAULT_FIXTURE} in ${dir}`);
+    }
+
+    console.log('📼 [Fixture Provider] Replaying', file);
+    const text = await fs.promises.readFile(file, 'utf8');
+
+    const inputTokens = estimateInputTokens(messages);
+    if (signal?.aborted) {
+      throw new GenerationAbortedError({ text: '', usage: { input_tokens: 0, output_tokens: 0 } });
+    }
+
+    if (onText) {
+      // Replay in chunks so streaming clients see progress like a live response
+      let snapshot = '';
+      for (let offset = 0; offset < text.length; offset += CHUNK_SIZE) {
+        if (signal?.aborted) {
+          throw new GenerationAbortedError({
+            text: snapshot,
+            usage: { input_tokens: inputTokens, output_tokens: estimateTokens(snapshot) },
+          });
+        }
+        const delta = text.slice(offset, offset + CHUNK_SIZE);
+        snapshot += delta;
+        onText(delta, snapshot);
+        await new Promise(resolve => chunkDelayMs > 0 ? setTimeout(resolve, chunkDelayMs) : setImmediate(resolve));
+      }
+    }
+
+    return {
+      text,
+      usage: {
+        input_tokens: inputTokens,
+        output_tokens: estimateTokens(text),
+      },
+      stopReason: 'end_turn',
+    };
+  };
+
+  return defineProvider({ name: 'fixture', complete });
+};
+
+// Wraps a provider so every completion is saved as a fixture for later replay
+export const withFixtureRecording = (provider, dir) => {
+  const complete = async (request) => {
+    const result = await provider.complete(request);
+    await fs.promises.mkdir(dir, { recursive: true });
+    await fs.promises.writeFile(fixturePath(dir, request.messages), result.text);
+    console.log('📼 [Fixture Provider] Recorded', fixtureKey(request.messages));
+    return result;
+  };
+
+  return defineProvider({ name: provider.name, isConfigured: provider.isConfigured, complete });
+};
@@ -0,0 +1,20 @@
+// Provider selection - PRISM_PROVIDER=anthropic (default) | fixture
+import { createAnthropicProvider } from './anthropic.js';
+import { createFixtureProvider, withFixtureRecording } from './fixture.js';
+
+export { GenerationAbortedError } from './base.js';
+
+export const PROVIDER_NAMES = ['anthropic', 'fixture'];
+
+export const createProvider = ({ name, apiKey, fixturesDir, fixtureDelayMs, recordFixtures }) => {
+  switch (name) {
+    case 'fixture':
+      return createFixtureProvider({ dir: fixturesDir, chunkDelayMs: fixtureDelayMs });
+    case 'anthropic': {
+      const provider = createAnthropicProvider({ apiKey });
+      return recordFixtures ? withFixtureRecording(provider, fixturesDir) : provider;
+    }
+    default:
+      throw new Error(`Unknown LLM provider "${name}" - expected one of: ${PROVIDER_NAMES.join(', ')}`);
+  }
+};
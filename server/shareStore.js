@@ -0,0 +1,137 @@
+// Read-only share links for reviewing work in progress
+//
+// A share is a snapshot of one project revision behind an unguessable token, stored as
+// shares/<token>.json under the data directory. It can expire, can require a passcode and can be
+// revoked at any time, unlike a published site. Passcodes are kept as scrypt hashes; a viewer who
+// entered the right one gets a cookie that is only valid for that share and that passcode.
+import crypto from 'crypto';
+import fs from 'fs';
+import { join } from 'path';
+import { writeFileAtomic } from './projectStore.js';
+
+const TOKEN_PATTERN = /^[A-Za-z0-9_-]{32}$/;
+
+// Wrong passcodes allowed per share before it is locked for a while
+const MAX_FAILED_UNLOCKS = 10;
+const UNLOCK_LOCKOUT_MS = 10 * 60 * 1000;
+
+export const isValidShareToken = (token) => typeof token === 'string' && TOKEN_PATTERN.test(token);
+
+const hashPasscode = (passcode, salt) => crypto.scryptSync(passcode, salt, 32).toString('hex');
+
+const isExpired = (share) => share.expiresAt !== null && share.expiresAt <= Date.now();
+
+// What clients see - never the snapshot or the passcode hash
+const summarize = ({ html, passcode, ...share }) => ({
+  ...share,
+  path: `/share/${share.token}`,
+  hasPasscode: !!passcode,
+  expired: isExpired(share),
+});
+
+export const createShareStore = ({ dir }) => {
+  const sharesDir = join(dir, 'shares');
+  fs.mkdirSync(sharesDir, { recursive: true });
+
+  const shareFile = (token) => join(sharesDir, `${token}.json`);
+  const failedUnlocks = new Map(); // token -> { count, since }
+
+  const readShare = async (token) => {
+    if (!isValidShareToken(token)) return null;
+    try {
+      return JSON.parse(await fs.promises.readFile(shareFile(token), 'utf8'));
+    } catch (error) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  };
+
+  const readAll = async () => {
+    const files = (await fs.promises.readdir(sharesDir)).filter(file => file.endsWith('.json'));
+    const shares = await Promise.all(files.map(async (file) => {
+      try {
+        return JSON.parse(await fs.promises.readFile(join(sharesDir, file), 'utf8'));
+      } catch (error) {
+        console.error('❌ [Share Store] Skipping unreadable share file:', file, error.message);
+        return null;
+      }
+    }));
+    return shares.filter(Boolean);
+  };
+
+  return {
+    // `expiresAt` is a timestamp or null, `passcode` an optional string
+    create: async ({ projectId, revisionId, title, html, expiresAt, passcode }) => {
+      const salt = passcode ? crypto.randomBytes(16).toString('hex') : null;
+      const share = {
+        token: crypto.randomBytes(24).toString('base64url'),
+        projectId,
+        revisionId,
+        title,
+        html,
+        createdAt: Date.now(),
+        expiresAt,
+        passcode: passcode ? { salt, hash: hashPasscode(passcode, salt) } : null,
+      };
+      await writeFileAtomic(shareFile(share.token), JSON.stringify(share));
+      console.log('🔗 [Share Store] Created share for project', projectId, expiresAt ? `(expires ${new Date(expiresAt).toISOString()})` : '');
+      return summarize(share);
+    },
+
+    // Newest first; `projectId` narrows the list
+    list: async ({ projectId } = {}) =>
+      (await readAll())
+        .filter(share => !projectId || share.projectId === projectId)
+        .sort((a, b) => b.createdAt - a.createdAt)
+        .map(summarize),
+
+    // Full share for the viewer routes, null when it does not exist
+    get: readShare,
+
+    isExpired,
+
+    revoke: async (token) => {
+      if (!(await readShare(token))) return false;
+      await fs.promises.rm(shareFile(token), { force: true });
+      failedUnlocks.delete(token);
+      console.log('🔗 [Share Store] Revoked share', token.slice(0, 6));
+      return true;
+    },
+
+    // Revoke every share of a deleted project
+    revokeProject: async (projectId) => {
+      const shares = (await readAll()).filter(share => share.projectId === projectId);
+      await Promise.all(shares.map(share => fs.promises.rm(shareFile(share.token), { force: true })));
+      return shares.length;
+    },
+
+    // Check a passcode; returns { cookie } with the value proving it, or { problem }
+    unlock: (share, passcode) => {
+      const attempts = failedUnlocks.get(share.token);
+      if (attempts && Date.now() - attempts.since > UNLOCK_LOCKOUT_MS) {
+        failedUnlocks.delete(share.token);
+      } else if (attempts && attempts.count >= MAX_FAILED_UNLOCKS) {
+        return { problem: 'Too many wrong passcodes - try again in a few minutes' };
+      }
+
+      const expected = Buffer.from(share.passcode.hash, 'hex');
+      const actual = Buffer.from(hashPasscode(String(passcode || ''), share.passcode.salt), 'hex');
+      if (!crypto.timingSafeEqual(expected, actual)) {
+        const current = failedUnlocks.get(share.token) || { count: 0, since: Date.now() };
+        failedUnlocks.set(share.token, { ...current, count: current.count + 1 });
+        return { problem: 'Wrong passcode' };
+      }
+      failedUnlocks.delete(share.token);
+      return { cookie: crypto.createHmac('sha256', share.passcode.hash).update(share.token).digest('base64url') };
+    },
+
+    // Does the cookie value come from unlock() for this share?
+    isUnlocked: (share, cookie) => {
+      if (!share.passcode) return true;
+      if (typeof cookie !== 'string') return false;
+      const expected = Buffer.from(crypto.createHmac('sha256', share.passcode.hash).update(share.token).digest('base64url'));
+      const actual = Buffer.from(cookie);
+      return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+    },
+  };
+};
@@ -0,0 +1,78 @@
+// Pages of the share link viewer (/share/<token>). The shared design itself is served from
+// /share/<token>/content into an iframe; these pages are the frame around it.
+
+const escapeHtml = (text) =>
+  String(text).replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char]);
+
+const page = (title, body) => `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="robots" content="noindex">
+<title>${escapeHtml(title)}</title>
+<style>
+  * { box-sizing: border-box; }
+  body { margin: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; background: #0a0a0f; color: #f0f0f5; }
+  .bar { display: flex; align-items: center; gap: 16px; padding: 10px 16px; background: #141416; border-bottom: 1px solid #28282a; }
+  .bar h1 { flex: 1; margin: 0; font-size: 14px; font-weight: 600; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+  .bar .meta { color: #94a3b8; font-size: 12px; }
+  .viewports { display: flex; gap: 4px; padding: 3px; background: #0a0a0f; border-radius: 8px; }
+  .viewports button { padding: 6px 12px; border: none; border-radius: 6px; background: transparent; color: #94a3b8; font: inherit; font-size: 12px; cursor: pointer; }
+  .viewports button.active { background: #667eea; color: #fff; }
+  .stage { display: flex; justify-content: center; height: calc(100vh - 53px); padding: 16px; overflow: auto; }
+  .stage iframe { width: 100%; height: 100%; border: none; border-radius: 8px; background: #fff; transition: width 0.2s ease; }
+  .card { max-width: 360px; margin: 18vh auto 0; padding: 28px; background: #141416; border: 1px solid #28282a; border-radius: 14px; }
+  .card h1 { margin: 0 0 8px; font-size: 18px; }
+  .card p { margin: 0 0 16px; color: #94a3b8; font-size: 14px; line-height: 1.5; }
+  .card input { width: 100%; padding: 10px 12px; margin-bottom: 12px; border: 1px solid #323237; border-radius: 8px; background: #0a0a0f; color: #f0f0f5; font: inherit; }
+  .card button { width: 100%; padding: 10px; border: none; border-radius: 8px; background: linear-gradient(135deg, #667eea, #764ba2); color: #fff; font: inherit; font-weight: 600; cursor: pointer; }
+  .card .error { color: #fca5a5; }
+</style>
+</head>
+<body>
+${body}
+</body>
+</html>`;
+
+const VIEWPORTS = [
+  { id: 'desktop', label: 'Desktop', width: '100%' },
+  { id: 'tablet', label: 'Tablet', width: '768px' },
+  { id: 'mobile', label: 'Mobile', width: '390px' },
+];
+
+export const renderShareViewer = (share) => {
+  const expiry = share.expiresAt ? `Link expires ${new Date(share.expiresAt).toUTCString()}` : '';
+  return page(share.title, `
+<div class="bar">
+  <h1>${escapeHtml(share.title)}</h1>
+  <span class="meta">Read-only preview${expiry ? ` · ${escapeHtml(expiry)}` : ''}</span>
+  <div class="viewports">
+    ${VIEWPORTS.map((viewport, index) => `<button type="button" data-width="${viewport.width}"${index === 0 ? ' class="active"' : ''}>${viewport.label}</button>`).join('\n    ')}
+  </div>
+</div>
+<div class="stage"><iframe src="/share/${share.token}/content" title="${escapeHtml(share.title)}"></iframe></div>
+<script>
+  document.querySelectorAll('.viewports button').forEach(function (button) {
+    button.addEventListener('click', function () {
+      document.querySelectorAll('.viewports button').forEach(function (other) { other.classList.toggle('active', other === button); });
+      document.querySelector('.stage iframe').style.width = button.dataset.width;
+    });
+  });
+</script>`);
+};
+
+export const renderPasscodePage = (share, error) => page(share.title, `
+<form class="card" method="post" action="/share/${share.token}/unlock">
+  <h1>${escapeHtml(share.title)}</h1>
+  <p>This preview is protected. Enter the passcode you were given.</p>
+  ${error ? `<p class="error">${escapeHtml(error)}</p>` : ''}
+  <input type="password" name="passcode" placeholder="Passcode" autofocus required>
+  <button type="submit">View design</button>
+</form>`);
+
+export const renderShareUnavailable = (message) => page('Link unavailable', `
+<div class="card">
+  <h1>Link unavailable</h1>
+  <p>${escapeHtml(message)}</p>
+</div>`);
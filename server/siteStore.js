@@ -0,0 +1,147 @@
+// Published sites - static copies of projects served at /sites/<slug>/
+//
+// Layout under the data directory:
+//   sites/<slug>/site.json              - { slug, projectId, version, publishedAt, sourceHash }
+//   sites/<slug>/versions/<n>/index.html
+//   sites/<slug>/versions/<n>/assets/   - stylesheets and images pulled out of the page
+// A publish writes a complete new version directory and only then points site.json at it (an atomic
+// rename), so visitors get either the previous version or the new one, never a half-written site.
+// The version before the current one is kept for requests that are still loading its assets.
+import crypto from 'crypto';
+import fs from 'fs';
+import { join } from 'path';
+import { createKeyedLock, writeFileAtomic } from './projectStore.js';
+
+const SLUG_PATTERN = /^[a-z0-9](?:[a-z0-9-]{0,62}[a-z0-9])?$/;
+const ASSET_PATTERN = /^[a-z0-9-]+\.[a-z0-9]+$/;
+const STYLE_BLOCK = /<style\b([^>]*)>([\s\S]*?)<\/style>/gi;
+const MEDIA_ATTRIBUTE = /\bmedia\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/i;
+const DATA_URL = /data:image\/(png|jpe?g|gif|webp|svg\+xml);base64,([A-Za-z0-9+/=]+)/g;
+const EXTENSIONS = { png: 'png', jpg: 'jpg', jpeg: 'jpg', gif: 'gif', webp: 'webp', 'svg+xml': 'svg' };
+
+export const isValidSlug = (slug) => typeof slug === 'string' && SLUG_PATTERN.test(slug);
+
+// Readable default slug for a project: words of its prompt plus the end of its id, which keeps it unique
+export const defaultSlug = (project) => {
+  const words = project.prompt.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40).replace(/-+$/, '');
+  const suffix = project.id.toLowerCase().replace(/[^a-z0-9]/g, '').slice(-6);
+  return [words || 'site', suffix].filter(Boolean).join('-');
+};
+
+const hash = (data) => crypto.createHash('sha256').update(data).digest('hex');
+
+// Pull inline styles and data: URL images out of the page into asset files.
+// Returns the rewritten HTML and the files as { name, data } (names are content hashes).
+const extractAssets = (html) => {
+  const assets = new Map();
+  const addAsset = (extension, data) => {
+    const name = `${hash(data).slice(0, 16)}.${extension}`;
+    assets.set(name, data);
+    return name;
+  };
+  const extractImages = (text, prefix) =>
+    text.replace(DATA_URL, (_match, type, base64) => `${prefix}${addAsset(EXTENSIONS[type], Buffer.from(base64, 'base64'))}`);
+
+  // Each block becomes a stylesheet in its place, so the cascade order and media queries stay as they were.
+  // Inside a stylesheet, image URLs are relative to the assets directory itself.
+  let page = html.replace(STYLE_BLOCK, (_match, attributes, css) => {
+    const stylesheet = addAsset('css', Buffer.from(extractImages(css, '')));
+    const media = attributes.match(MEDIA_ATTRIBUTE);
+    const mediaAttribute = media ? ` media="${(media[1] ?? media[2] ?? media[3]).replace(/"/g, '&quot;')}"` : '';
+    return `<link rel="stylesheet" href="assets/${stylesheet}"${mediaAttribute}>`;
+  });
+  page = extractImages(page, 'assets/');
+
+  return { html: page, assets: [...assets].map(([name, data]) => ({ name, data })) };
+};
+
+export const createSiteStore = ({ dir }) => {
+  const sitesDir = join(dir, 'sites');
+  fs.mkdirSync(sitesDir, { recursive: true });
+
+  const siteDir = (slug) => join(sitesDir, slug);
+  const versionDir = (slug, version) => join(siteDir(slug), 'versions', String(version));
+  const siteFile = (slug) => join(siteDir(slug), 'site.json');
+
+  // One publish or unpublish per slug at a time
+  const withLock = createKeyedLock();
+
+  const readSite = async (slug) => {
+    try {
+      return JSON.parse(await fs.promises.readFile(siteFile(slug), 'utf8'));
+    } catch (error) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  };
+
+  // Move the directory out of the way first, so nothing is served from it while it is deleted
+  const removeSite = async (slug) => {
+    const trash = join(sitesDir, `.trash-${slug}-${crypto.randomBytes(4).toString('hex')}`);
+    await fs.promises.rename(siteDir(slug), trash);
+    await fs.promises.rm(trash, { recursive: true, force: true });
+  };
+
+  return {
+    // Write `html` as the next version of the project's site. `previousSlug` is the slug the project
+    // was published under before, removed when the slug changes. Returns { site } with the new
+    // site.json contents, or { conflict } when the slug belongs to another project.
+    publish: ({ projectId, slug, html, previousSlug }) => withLock(slug, async () => {
+      const existing = await readSite(slug);
+      if (existing && existing.projectId !== projectId) {
+        return { conflict: `The address "${slug}" is already used by another project` };
+      }
+
+      const version = (existing?.version || 0) + 1;
+      const target = versionDir(slug, version);
+      const { html: page, assets } = extractAssets(html);
+
+      // Leftovers of a publish that crashed halfway are never referenced by site.json
+      await fs.promises.rm(target, { recursive: true, force: true });
+      await fs.promises.mkdir(join(target, 'assets'), { recursive: true });
+      await Promise.all(assets.map(asset => fs.promises.writeFile(join(target, 'assets', asset.name), asset.data)));
+      await fs.promises.writeFile(join(target, 'index.html'), page);
+
+      const site = { slug, projectId, version, publishedAt: Date.now(), sourceHash: hash(html) };
+      await writeFileAtomic(siteFile(slug), JSON.stringify(site));
+
+      const versions = await fs.promises.readdir(join(siteDir(slug), 'versions'));
+      await Promise.all(versions
+        .filter(name => Number(name) < version - 1)
+        .map(name => fs.promises.rm(versionDir(slug, name), { recursive: true, force: true })));
+
+      if (previousSlug && previousSlug !== slug) {
+        const previous = await readSite(previousSlug);
+        if (previous?.projectId === projectId) {
+          await withLock(previousSlug, () => removeSite(previousSlug));
+        }
+      }
+
+      console.log(`🌐 [Site Store] Published ${slug} version ${version} (${assets.length} assets)`);
+      return { site };
+    }),
+
+    // Take a project's site offline; false if there was none
+    unpublish: ({ projectId, slug }) => withLock(slug, async () => {
+      const site = await readSite(slug);
+      if (!site || site.projectId !== projectId) return false;
+      await removeSite(slug);
+      console.log('🌐 [Site Store] Unpublished', slug);
+      return true;
+    }),
+
+    // File to serve for /sites/<slug>/<path>, null if there is none
+    resolve: async (slug, path) => {
+      if (!isValidSlug(slug)) return null;
+      const site = await readSite(slug);
+      if (!site) return null;
+      if (path === '' || path === 'index.html') return join(versionDir(slug, site.version), 'index.html');
+      const [folder, name, ...rest] = path.split('/');
+      if (folder !== 'assets' || rest.length > 0 || !ASSET_PATTERN.test(name || '')) return null;
+      // A page loaded just before a republish may still ask for the assets of the previous version
+      return [site.version, site.version - 1]
+        .map(version => join(versionDir(slug, version), 'assets', name))
+        .find(file => fs.existsSync(file)) || null;
+    },
+  };
+};
@@ -0,0 +1,30 @@
+// Shared shape of every speech-to-text backend.
+//
+// A transcriber implements `transcribe({ audio, mimeType, language, signal })`, where `audio` is a
+// Buffer with the recording as uploaded by the browser (usually audio/webm or audio/mp4), and
+// resolves to { text }. Adapters throw when the backend fails; the route turns that into a 502.
+
+// Recordings the browser's MediaRecorder produces, plus the usual uploaded formats
+export const AUDIO_MIME_TYPES = [
+  'audio/webm', 'audio/ogg', 'audio/mp4', 'audio/mpeg', 'audio/wav', 'audio/x-wav', 'audio/flac',
+];
+
+// File extension backends infer the format from
+export const audioExtension = (mimeType) => ({
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/mp4': 'm4a',
+  'audio/mpeg': 'mp3',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/flac': 'flac',
+})[mimeType] || 'webm';
+
+export const defineTranscriber = ({ name, isConfigured = () => true, transcribe }) => ({
+  name,
+  isConfigured,
+  transcribe: async (request) => {
+    const result = await transcribe(request);
+    return { text: result.text.trim() };
+  },
+});
@@ -0,0 +1,18 @@
+// Transcriber selection - PRISM_TRANSCRIBER=local (default) | whisper
+import { createLocalTranscriber } from './local.js';
+import { createWhisperTranscriber } from './whisper.js';
+
+export { AUDIO_MIME_TYPES } from './base.js';
+
+export const TRANSCRIBER_NAMES = ['local', 'whisper'];
+
+export const createTranscriber = ({ name, transcriptsDir, transcriptText, whisperUrl, whisperModel, whisperApiKey }) => {
+  switch (name) {
+    case 'local':
+      return createLocalTranscriber({ dir: transcriptsDir, text: transcriptText });
+    case 'whisper':
+      return createWhisperTranscriber({ url: whisperUrl, model: whisperModel, apiKey: whisperApiKey });
+    default:
+      throw new Error(`Unknown transcriber "${name}" - expected one of: ${TRANSCRIBER_NAMES.join(', ')}`);
+  }
+};
@@ -0,0 +1,28 @@
+// Local stand-in transcriber - no speech recognition, for development and tests.
+//
+// Like the fixture LLM provider it replays text from disk: `<hash>.txt` in the transcripts
+// directory, where the hash is transcriptKey(audio), or `_default.txt` for any other recording.
+// PRISM_TRANSCRIPT_TEXT overrides both with a fixed transcript.
+import crypto from 'crypto';
+import fs from 'fs';
+import { join } from 'path';
+import { defineTranscriber } from './base.js';
+
+const DEFAULT_TRANSCRIPT = '_default.txt';
+
+export const transcriptKey = (audio) => crypto.createHash('sha256').update(audio).digest('hex').slice(0, 16);
+
+export const createLocalTranscriber = ({ dir, text }) => {
+  const transcribe = async ({ audio }) => {
+    if (text) return { text };
+    const recorded = join(dir, `${transcriptKey(audio)}.txt`);
+    const file = fs.existsSync(recorded) ? recorded : join(dir, DEFAULT_TRANSCRIPT);
+    if (!fs.existsSync(file)) {
+      throw new Error(`No transcript recorded for audio hash ${transcriptKey(audio)} and no ${DEFAULT_TRANSCRIPT} in ${dir}`);
+    }
+    console.log('📼 [Local Transcriber] Replaying', file);
+    return { text: await fs.promises.readFile(file, 'utf8') };
+  };
+
+  return defineTranscriber({ name: 'local', transcribe });
+};
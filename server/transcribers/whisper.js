@@ -0,0 +1,28 @@
+// Whisper adapter - any server with the OpenAI-style POST /v1/audio/transcriptions endpoint
+// (whisper.cpp's server, faster-whisper-server, LocalAI, or the OpenAI API itself)
+import { audioExtension, defineTranscriber } from './base.js';
+
+export const createWhisperTranscriber = ({ url, model, apiKey }) => {
+  const transcribe = async ({ audio, mimeType, language, signal }) => {
+    const form = new FormData();
+    form.append('file', new Blob([audio], { type: mimeType }), `recording.${audioExtension(mimeType)}`);
+    form.append('model', model);
+    form.append('response_format', 'json');
+    if (language) form.append('language', language);
+
+    const response = await fetch(`${url.replace(/\/$/, '')}/v1/audio/transcriptions`, {
+      method: 'POST',
+      headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+      body: form,
+      signal,
+    });
+    if (!response.ok) {
+      const details = await response.text().catch(() => '');
+      throw new Error(`Whisper server answered ${response.status}${details ? `: ${details.slice(0, 200)}` : ''}`);
+    }
+    const data = await response.json();
+    return { text: data.text || '' };
+  };
+
+  return defineTranscriber({ name: 'whisper', isConfigured: () => !!url, transcribe });
+};
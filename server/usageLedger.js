@@ -0,0 +1,95 @@
+// Persistent token usage and cost ledger
+//
+// Every model call (generation, refinement, variant) appends one JSON line to the ledger file:
+//   { id, timestamp, kind, model, projectId, input_tokens, output_tokens, cost, durationMs, continuations, status }
+// summarize() aggregates the entries for /api/usage.
+import crypto from 'crypto';
+import fs from 'fs';
+import { dirname } from 'path';
+
+export const USAGE_KINDS = ['generate', 'refine', 'variant'];
+
+const emptyBucket = () => ({ requests: 0, input_tokens: 0, output_tokens: 0, cost: 0 });
+
+const addToBucket = (bucket, entry) => {
+  bucket.requests += 1;
+  bucket.input_tokens += entry.input_tokens;
+  bucket.output_tokens += entry.output_tokens;
+  bucket.cost += entry.cost;
+};
+
+// UTC calendar day, e.g. 2025-03-14
+const dayOf = (timestamp) => new Date(timestamp).toISOString().slice(0, 10);
+
+export const createUsageLedger = ({ file }) => {
+  fs.mkdirSync(dirname(file), { recursive: true });
+  // Appends are chained so concurrent calls never interleave lines
+  let writes = Promise.resolve();
+
+  const readEntries = async () => {
+    let raw;
+    try {
+      raw = await fs.promises.readFile(file, 'utf8');
+    } catch (error) {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    }
+    return raw.split('\n').filter(Boolean).flatMap(line => {
+      try {
+        return [JSON.parse(line)];
+      } catch {
+        console.error('❌ [Usage Ledger] Skipping unreadable line:', line.slice(0, 80));
+        return [];
+      }
+    });
+  };
+
+  return {
+    record: (entry) => {
+      const line = {
+        id: crypto.randomUUID(),
+        timestamp: Date.now(),
+        projectId: null,
+        continuations: 0,
+        status: 'ok',
+        ...entry,
+      };
+      writes = writes
+        .then(() => fs.promises.appendFile(file, `${JSON.stringify(line)}\n`))
+        .catch(error => console.error('❌ [Usage Ledger] Failed to record usage:', error));
+      return writes;
+    },
+
+    // Totals plus breakdowns by day, model, project and kind; `from`/`to` are timestamps
+    summarize: async ({ from, to, projectId } = {}) => {
+      const entries = (await readEntries()).filter(entry =>
+        (from === undefined || entry.timestamp >= from) &&
+        (to === undefined || entry.timestamp <= to) &&
+        (projectId === undefined || entry.projectId === projectId)
+      );
+
+      const now = new Date();
+      const monthStart = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1);
+      // Breakdowns are keyed by ids that may be "__proto__" or "constructor", so they have no prototype
+      const summary = {
+        totals: emptyBucket(),
+        monthToDate: emptyBucket(),
+        byDay: Object.create(null),
+        byModel: Object.create(null),
+        byProject: Object.create(null),
+        byKind: Object.create(null),
+      };
+
+      entries.forEach(entry => {
+        addToBucket(summary.totals, entry);
+        if (entry.timestamp >= monthStart) addToBucket(summary.monthToDate, entry);
+        addToBucket(summary.byDay[dayOf(entry.timestamp)] ||= emptyBucket(), entry);
+        addToBucket(summary.byModel[entry.model] ||= emptyBucket(), entry);
+        addToBucket(summary.byProject[entry.projectId || 'unassigned'] ||= emptyBucket(), entry);
+        addToBucket(summary.byKind[entry.kind] ||= emptyBucket(), entry);
+      });
+
+      return summary;
+    },
+  };
+};
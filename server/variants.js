@@ -0,0 +1,133 @@
+// Style directions for design variants - named presets the UI offers as chips,
+// plus free-text directions typed by the user. Each variant is one generation of the
+// same prompt with a direction appended.
+
+export const MIN_VARIANTS = 2;
+export const MAX_VARIANTS = 6;
+const MAX_DIRECTION_LENGTH = 500;
+
+export const VARIANT_PRESETS = {
+  'bold-vibrant': {
+    label: 'Bold & Vibrant',
+    description: 'Saturated colors, strong shadows and high contrast',
+    instructions: `- Use bold, saturated colors (blues, purples, vibrant gradients)
+    - Modern, geometric card shapes with strong shadows
+    - High contrast elements
+    - Energetic, dynamic feel`,
+  },
+  'minimal-elegant': {
+    label: 'Minimal & Elegant',
+    description: 'Muted colors, soft shadows and refined spacing',
+    instructions: `- Use subtle, muted colors (grays, soft pastels, gentle gradients)
+    - Clean, minimal card shapes with soft shadows
+    - Refined spacing and typography
+    - Calm, sophisticated feel`,
+  },
+  'dark-premium': {
+    label: 'Dark & Premium',
+    description: 'Dark surfaces, glowing accents and glass panels',
+    instructions: `- Use a near-black background with one luminous accent color
+    - Glassmorphism panels with subtle borders and blur
+    - Thin, high-contrast typography with generous letter spacing
+    - Exclusive, high-end feel`,
+  },
+  'warm-organic': {
+    label: 'Warm & Organic',
+    description: 'Earthy tones, rounded shapes and natural textures',
+    instructions: `- Use warm, earthy colors (terracotta, sand, olive, cream)
+    - Rounded, organic shapes and soft corners
+    - Serif headings paired with a friendly sans-serif body
+    - Welcoming, human feel`,
+  },
+  'playful-friendly': {
+    label: 'Playful & Friendly',
+    description: 'Bright colors, chunky type and lively illustrations',
+    instructions: `- Use bright, cheerful colors with playful color blocking
+    - Chunky, rounded typography and pill-shaped buttons
+    - Decorative shapes, emoji-style icons and light motion
+    - Fun, approachable feel`,
+  },
+  'corporate-trust': {
+    label: 'Corporate & Trustworthy',
+    description: 'Structured layout, navy and white, clear hierarchy',
+    instructions: `- Use a restrained palette of navy, white and one accent color
+    - Structured grid layout with clear visual hierarchy
+    - Testimonials, logos and numbers given prominent placement
+    - Reliable, professional feel`,
+  },
+  editorial: {
+    label: 'Editorial',
+    description: 'Magazine-style typography and asymmetric layouts',
+    instructions: `- Large serif display typography and strong typographic contrast
+    - Asymmetric, magazine-style layouts with generous white space
+    - Black, white and a single muted accent color
+    - Thoughtful, content-first feel`,
+  },
+};
+
+// Public description of the presets, served by /api/variants/presets for the direction chips
+export const listVariantPresets = () =>
+  Object.entries(VARIANT_PRESETS).map(([key, preset]) => ({
+    key,
+    label: preset.label,
+    description: preset.description,
+  }));
+
+// The preset for a key; own keys only, so "constructor" and friends are free text
+const presetFor = (key) => (Object.hasOwn(VARIANT_PRESETS, key) ? VARIANT_PRESETS[key] : null);
+
+// Turn the requested directions (preset keys or free text) into `count` directions.
+// Missing ones are filled with presets that were not asked for, in registry order.
+// Returns { directions } or { problem } when the request is invalid.
+export const resolveDirections = (requested = [], count) => {
+  if (!Array.isArray(requested) || requested.some(direction => typeof direction !== 'string' || !direction.trim())) {
+    return { problem: 'directions must be an array of preset keys or non-empty strings' };
+  }
+  if (requested.length > count) {
+    return { problem: `Got ${requested.length} directions for ${count} variants` };
+  }
+  if (requested.some(direction => direction.length > MAX_DIRECTION_LENGTH)) {
+    return { problem: `Directions are limited to ${MAX_DIRECTION_LENGTH} characters` };
+  }
+
+  const directions = requested.map(direction => {
+    const text = direction.trim();
+    const preset = presetFor(text);
+    if (preset) {
+      return { key: text, label: preset.label, description: preset.description, instructions: preset.instructions, custom: false };
+    }
+    return {
+      key: null,
+      label: text.length > 40 ? `${text.slice(0, 40)}...` : text,
+      description: text,
+      instructions: `- ${text}`,
+      custom: true,
+    };
+  });
+
+  const used = directions.map(direction => direction.key);
+  const unused = Object.keys(VARIANT_PRESETS).filter(key => !used.includes(key));
+  while (directions.length < count && unused.length > 0) {
+    const key = unused.shift();
+    const preset = presetFor(key);
+    directions.push({ key, label: preset.label, description: preset.description, instructions: preset.instructions, custom: false });
+  }
+  return { directions };
+};
+
+export const buildVariantPrompt = (prompt, direction, index) =>
+  `${prompt}\n\n**DESIGN VARIATION ${String.fromCharCode(65 + index)} - ${direction.label}**:\n    ${direction.instructions}`;
+
+// Like Promise.all(items.map(fn)) with at most `limit` calls of fn running at once
+export const mapWithConcurrency = async (items, limit, fn) => {
+  const results = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+};
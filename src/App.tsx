@@ -6,7 +6,25 @@ import SplitPane from 'react-split-pane';
 import './App.css';
 import './CodeViewer.css';
 import { IconLibrary } from './components/IconLibrary';
+import { VariantMixer } from './components/VariantMixer';
+import { VariantComparison } from './components/VariantComparison';
+import { HistoryPanel } from './components/HistoryPanel';
+import { EditHistoryButtons } from './components/EditHistoryButtons';
+import { PreviewConsole } from './components/PreviewConsole';
+import { PublishPanel } from './components/PublishPanel';
+import { SharePanel, type ShareOptions } from './components/SharePanel';
+import { ACCEPTED_IMAGE_TYPES, imageDataUrl, prepareImage, toImagePayload, type PromptImage } from './lib/imageInput';
 import { enhancePromptWithPremiumDesignV3 } from './lib/premiumDesignSystemV3';
+import { fetchAvailableModels, fetchUsageSummary, fetchVariantPresets, formatCost, generateVariantDesigns, isAbortError, refineDesign, transcribeRecording, type ModelInfo, type UsageSummary, type VariantDirection, type VariantPreset } from './lib/api';
+import { GenerationCancelledError } from './lib/generationStream';
+import { cancelGenerationJob, createGenerationJob, fetchGenerationJob, followGenerationJob, forgetActiveJob, loadActiveJob, rememberActiveJob, type ActiveGenerationJob } from './lib/generationJobs';
+import { renderFinalHtml, stripElementIds } from './lib/documentTransform';
+import { addEdit, clearEdits, describeEditCommand, flushEdits, getEditHistory, getEdits, redoEdit, removeEdits, undoEdit } from './lib/editStore';
+import { assignElementIds, findUnresolvedEdits, type EditTarget } from './lib/elementIdentity';
+import { withPreviewAgent } from './lib/previewAgent';
+import { isAgentMessage, postToAgent, type ElementSnapshot } from './lib/previewProtocol';
+import { addConsoleEntry, clearConsole } from './lib/previewConsole';
+import { appendRevision, changedProjectFields, createShareLink, deleteProject, describeShareLink, listProjects, listShareLinks, migrateLocalProjects, publishedSiteUrl, publishProject, revokeShareLink, saveProject, shareLinkUrl, unpublishProject, updateProject, type ProjectAlternate, type ProjectRevision, type SavedDesign, type ShareLink, type StyleEdit } from './lib/projectsApi';
 
 // Declare Lucide for TypeScript
 declare global {
@@ -28,20 +46,14 @@ interface GeneratedResult {
   id: string;
 }
 
-interface StyleEdit {
-  selector: string;
-  property: string;
-  value: string;
-  timestamp: number;
+interface VariantOption extends GeneratedResult {
+  direction: VariantDirection;
 }
 
-interface SavedDesign {
-  id: string;
-  prompt: string;
-  code: string;
-  timestamp: number;
-  thumbnail?: string;
-  edits?: StyleEdit[]; // Track all style edits made by user
+// What the landing page asks for in variants mode
+interface VariantRequest {
+  count: number;
+  directions: string[]; // Preset keys or free text; the server fills up to `count`
 }
 
 interface ChatMessage {
@@ -53,11 +65,8 @@ interface ChatMessage {
 }
 
 // New interfaces for live editing functionality
-// Simple interfaces for the new edit mode
-interface SelectedElement {
-  element: HTMLElement;
-  selector: string;
-}
+// The element selected in the edit-mode preview, as the preview agent reports it
+type SelectedElement = ElementSnapshot;
 
 interface EditableProperties {
   [key: string]: string;
@@ -83,21 +92,23 @@ interface ProjectViewProps {
   onElementSelect: (element: SelectedElement | null) => void;
 }
 
-const getElementSelector = (element: HTMLElement): string => {
-  if (element.id) return `#${element.id}`;
-  if (element.className && typeof element.className === 'string') {
-    return `.${element.className.split(' ')[0]}`;
-  }
-  return element.tagName.toLowerCase();
-};
+// Voice input stops by itself after this long, in case the stop button is forgotten
+const MAX_RECORDING_SECONDS = 300;
 
-interface InlineEditState {
-  element: HTMLElement;
-  originalText: string;
-  isEditing: boolean;
-}
+const formatRecordingTime = (seconds: number) => `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+// Prompt for a reference image sent without any text
+const IMAGE_ONLY_PROMPT = 'Recreate the page shown in the attached image';
+
+// Whether keys typed at `target` edit text, which has an undo of its own (sliders and color pickers don't)
+const isTextEntry = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (
+    target.isContentEditable ||
+    target.matches('textarea, select, input:not([type="range"], [type="color"], [type="checkbox"], [type="radio"], [type="button"])') ||
+    target.closest('.monaco-editor') !== null
+  );
 
-const LivePreview = memo(({ generatedResult, editMode, onElementSelect, className, viewport, refreshKey, currentProject, appliedProjectId }: {
+const LivePreview = memo(({ generatedResult, onElementSelect, className, edits, addStyleEdit, frameRef, scriptsPaused }: {
   generatedResult: GeneratedResult | null;
   editMode: boolean;
   onElementSelect: (element: SelectedElement | null) => void;
@@ -106,625 +117,49 @@ const LivePreview = memo(({ generatedResult, editMode, onElementSelect, classNam
   refreshKey?: number;
   currentProject?: SavedDesign | null;
   appliedProjectId?: React.MutableRefObject<string | null>;
+  edits: StyleEdit[]; // Pending style edits from the edit store, baked into the loaded page
+  addStyleEdit?: (target: EditTarget, property: string, value: string) => void; // Records inline text edits
+  frameRef: React.RefObject<HTMLIFrameElement | null>; // For messages to the preview agent
+  scriptsPaused?: boolean; // Loads the page without running its scripts
 }) => {
-  const previewContainerRef = useRef<HTMLDivElement>(null);
-  const [inlineEdit, setInlineEdit] = useState<InlineEditState | null>(null);
-
-  // The viewport styling is now handled at the editor-container level
-
-  // Check if an element is editable text
-  const isTextElement = (element: HTMLElement): boolean => {
-    const tagName = element.tagName.toLowerCase();
-    const textTags = ['h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'p', 'span', 'div', 'a', 'button', 'label'];
-    return textTags.includes(tagName) && 
-           element.children.length === 0 && 
-           Boolean(element.textContent) && 
-           (element.textContent?.trim().length || 0) > 0;
-  };
-
-  // Start inline editing
-  const startInlineEdit = useCallback((element: HTMLElement) => {
-    const originalText = element.textContent || '';
-    console.log(`[Inline Edit] Starting edit for: "${originalText}"`);
-    
-    setInlineEdit({
-      element,
-      originalText,
-      isEditing: true
-    });
-
-    // Create inline editor
-    const editor = document.createElement('div');
-    editor.contentEditable = 'true';
-    editor.className = 'prism-inline-editor';
-    editor.textContent = originalText;
-    
-    // Copy styles from original element
-    const computedStyle = window.getComputedStyle(element);
-    editor.style.fontSize = computedStyle.fontSize;
-    editor.style.fontWeight = computedStyle.fontWeight;
-    editor.style.fontFamily = computedStyle.fontFamily;
-    editor.style.color = computedStyle.color;
-    editor.style.lineHeight = computedStyle.lineHeight;
-    editor.style.textAlign = computedStyle.textAlign;
-    editor.style.padding = computedStyle.padding;
-    editor.style.margin = computedStyle.margin;
-    editor.style.width = '100%';
-    editor.style.minHeight = computedStyle.height;
-    editor.style.border = '2px solid #3B82F6';
-    editor.style.borderRadius = '4px';
-    editor.style.outline = 'none';
-    editor.style.background = 'rgba(59, 130, 246, 0.05)';
-    
-    // Handle editing completion
-    const finishEdit = (save: boolean) => {
-      if (save && editor.textContent !== originalText) {
-        element.textContent = editor.textContent || '';
-        console.log(`[Inline Edit] Saved new text: "${element.textContent}"`);
-      } else {
-        console.log(`[Inline Edit] Edit cancelled or no changes`);
-      }
-      
-      // Replace editor with original element
-      if (editor.parentNode) {
-        editor.parentNode.replaceChild(element, editor);
-      }
-      
-      setInlineEdit(null);
-    };
-
-    // Event listeners for editing
-    editor.addEventListener('blur', () => finishEdit(true));
-    editor.addEventListener('keydown', (e) => {
-      if (e.key === 'Enter' && !e.shiftKey) {
-        e.preventDefault();
-        finishEdit(true);
-      } else if (e.key === 'Escape') {
-        e.preventDefault();
-        finishEdit(false);
-      }
-    });
-
-    // Replace element with editor
-    element.parentNode?.replaceChild(editor, element);
-    
-    // Focus and select all text
-    editor.focus();
-    const range = document.createRange();
-    range.selectNodeContents(editor);
-    const selection = window.getSelection();
-    selection?.removeAllRanges();
-    selection?.addRange(range);
-    
-  }, []);
-
-  const loadPreviewContent = useCallback(() => {
-    if (!previewContainerRef.current || !generatedResult || !editMode) {
-      return;
-    }
-    
-    // Don't reload content if there's already content and we have a selection
-    // This prevents clearing the selection during editing
-    const hasContent = previewContainerRef.current.querySelector('[data-step1-content]');
-    const hasSelection = previewContainerRef.current.querySelector('.step1-selected');
-    if (hasContent && hasSelection) {
-      console.log('🎯 Skipping content reload - preserving selection during editing');
-      return;
-    }
-    
-    const fullHtml = generatedResult.code;
-    console.log('🔍 [DEBUG] Original HTML content:', fullHtml.substring(0, 200) + '...');
-    
-    const parser = new DOMParser();
-    const doc = parser.parseFromString(fullHtml, 'text/html');
-    console.log('🔍 [DEBUG] Parsed document body:', doc.body?.innerHTML?.substring(0, 200) + '...');
-    
-    // Clean up any malformed HTML fragments that might appear
-    const bodyContent = doc.body ? doc.body.innerHTML : '';
-    
-    // Debug HTML parsing
-    console.log('🔍 [Prism] Parsing HTML content...');
-    if (!doc.body) {
-      console.warn('⚠️ [Prism] No body element found in generated HTML');
-    }
-    
-    // Remove any stray text nodes or fragments that might leak
-    const tempDiv = document.createElement('div');
-    tempDiv.innerHTML = bodyContent;
-    
-    // Remove any text nodes that are just whitespace or fragments
-    const walker = document.createTreeWalker(
-      tempDiv,
-      NodeFilter.SHOW_TEXT,
-      null,
-      false
-    );
-    
-    const textNodes = [];
-    let node;
-    while (node = walker.nextNode()) {
-      textNodes.push(node);
-    }
-    
-    textNodes.forEach(textNode => {
-      const text = textNode.textContent?.trim() || '';
-      // Remove standalone HTML fragments, tags, or unwanted text snippets
-      // BUT preserve emojis and icons
-      const isEmoji = /[\u{1F600}-\u{1F64F}]|[\u{1F300}-\u{1F5FF}]|[\u{1F680}-\u{1F6FF}]|[\u{1F1E0}-\u{1F1FF}]|[\u{2600}-\u{26FF}]|[\u{2700}-\u{27BF}]/u.test(text);
-      
-      if (!isEmoji && text.length < 50 && (
-        text.includes('<') || 
-        text.includes('html') || 
-        text.includes('<!') ||
-        text.includes('/>') ||
-        text.includes('&lt;') ||
-        text.includes('&gt;') ||
-        text === '' ||
-        text === 'html' ||
-        text === 'HTML' ||
-        text.toLowerCase() === 'html' ||
-        text.includes('...html') || // Catch ellipsis + html patterns
-        text.includes('html...') || // Catch html + ellipsis patterns
-        text.startsWith('...') && text.includes('html') || // Any ellipsis starting with html
-        text.endsWith('...') && text.includes('html') || // Any ellipsis ending with html
-        /^[<>\/\s]*$/.test(text) ||
-        /^html$/i.test(text) ||
-        /^\.{3}html$/i.test(text) || // Exactly "...html"
-        /^html\.{3}$/i.test(text) || // Exactly "html..."
-        text.match(/^[\s\n\r\t]*$/) || // Remove whitespace-only nodes
-        text.match(/^[^a-zA-Z0-9\u{1F600}-\u{1F64F}\u{1F300}-\u{1F5FF}\u{1F680}-\u{1F6FF}\u{1F1E0}-\u{1F1FF}\u{2600}-\u{26FF}\u{2700}-\u{27BF}]*$/u) // Remove nodes with only special characters but preserve emojis
-      )) {
-        console.log(`🧹 [Prism] Removing unwanted text node: "${text}"`);
-        textNode.remove();
-      }
-    });
-    
-    const cleanBodyContent = tempDiv.innerHTML;
-    console.log('🔍 [DEBUG] Clean body content after filtering:', cleanBodyContent.substring(0, 200) + '...');
-    
-    const styleElements = doc.querySelectorAll('style');
-    let extractedCss = '';
-    console.log('🎨 [DEBUG] Found', styleElements.length, 'style elements');
-    styleElements.forEach((style, index) => {
-      console.log(`🎨 [DEBUG] Style ${index + 1}:`, style.innerHTML.substring(0, 200) + '...');
-      extractedCss += style.innerHTML + '\n';
-    });
-    console.log('🎨 [DEBUG] Total extracted CSS length:', extractedCss.length);
-    
-    previewContainerRef.current.innerHTML = '';
-    
-    const scopedCss = extractedCss.replace(/body/g, '[data-prism-preview-container]');
-    console.log('🎨 [DEBUG] Scoped CSS (first 300 chars):', scopedCss.substring(0, 300) + '...');
-    console.log('🔍 [DEBUG] Final HTML being inserted:', cleanBodyContent.substring(0, 300) + '...');
-
-    // Add essential resets for edge-to-edge content
-    const resetCss = `
-      [data-prism-preview-container] {
-        margin: 0 !important;
-        padding: 0 !important;
-        width: 100% !important;
-        height: 100% !important;
-        overflow-x: hidden !important;
-        box-sizing: border-box !important;
-      }
-      [data-prism-preview-container] * {
-        box-sizing: border-box;
-      }
-    `;
-
-    if (scopedCss.trim() || resetCss) {
-      const styleElement = document.createElement('style');
-      if (styleElement) {
-        const finalCss = scopedCss + resetCss;
-        styleElement.innerHTML = finalCss;
-        styleElement.setAttribute('data-step1-styles', 'true');
-        previewContainerRef.current.appendChild(styleElement);
-        console.log('🎨 [DEBUG] Applied final CSS to style element, length:', finalCss.length);
-        console.log('🎨 [DEBUG] Style element added to container');
-      }
-    }
-    
-    const contentWrapper = document.createElement('div');
-    contentWrapper.innerHTML = cleanBodyContent;
-    contentWrapper.setAttribute('data-step1-content', 'true');
-    contentWrapper.setAttribute('data-generated-content', 'true');
-    contentWrapper.setAttribute('data-prism-preview-container', 'true');
-    previewContainerRef.current.appendChild(contentWrapper);
-    
-    console.log('🎨 [DEBUG] Container background after setup:', window.getComputedStyle(previewContainerRef.current).background);
-    console.log('🎨 [DEBUG] ContentWrapper background:', window.getComputedStyle(contentWrapper).background);
-    
-    // Initialize Lucide icons and debug images
-    setTimeout(() => {
-      // Initialize Lucide icons
-      if ((window as any).lucide) {
-        console.log('🎨 [Prism] Initializing Lucide icons...');
-        (window as any).lucide.createIcons();
-      } else {
-        console.log('⚠️ [Prism] Lucide not loaded, loading CDN...');
-        const script = document.createElement('script');
-        script.src = 'https://unpkg.com/lucide@latest/dist/umd/lucide.js';
-        script.onload = () => {
-          console.log('✅ [Prism] Lucide loaded, initializing icons...');
-          if ((window as any).lucide) {
-            (window as any).lucide.createIcons();
-          }
-        };
-        document.head.appendChild(script);
-      }
-
-      // Debug and fix image loading issues
-      const images = contentWrapper.querySelectorAll('img');
-      console.log(`🖼️ [Prism] Found ${images.length} images in generated content`);
-      
-      images.forEach((img, index) => {
-        const originalSrc = img.getAttribute('src') || '';
-        console.log(`🖼️ [Prism] Image ${index + 1}: ${originalSrc}`);
-        
-        // Check for common placeholder services and replace them
-        if (originalSrc.includes('placeholder.com') || 
-            originalSrc.includes('via.placeholder.com') ||
-            originalSrc.includes('placehold.it') ||
-            originalSrc.includes('dummyimage.com')) {
-          
-          console.log(`⚠️ [Prism] Replacing placeholder image: ${originalSrc}`);
-          
-          // Extract dimensions if possible
-          const width = img.getAttribute('width') || img.style.width || '400';
-          const height = img.getAttribute('height') || img.style.height || '300';
-          const cleanWidth = width.toString().replace('px', '');
-          const cleanHeight = height.toString().replace('px', '');
-          
-          // Replace with Picsum
-          const newSrc = `https://picsum.photos/${cleanWidth}/${cleanHeight}?random=${index + Date.now()}`;
-          img.setAttribute('src', newSrc);
-          console.log(`✅ [Prism] Replaced with: ${newSrc}`);
-        }
-        
-        // Add error handling for all images
-        img.addEventListener('error', () => {
-          console.error(`❌ [Prism] Image failed to load: ${img.src}`);
-          // Fallback to a simple colored div
-          const fallback = document.createElement('div');
-          fallback.style.width = img.style.width || '400px';
-          fallback.style.height = img.style.height || '300px';
-          fallback.style.backgroundColor = '#f3f4f6';
-          fallback.style.display = 'flex';
-          fallback.style.alignItems = 'center';
-          fallback.style.justifyContent = 'center';
-          fallback.style.color = '#6b7280';
-          fallback.style.fontSize = '14px';
-          fallback.textContent = 'Image unavailable';
-          fallback.className = img.className;
-          img.parentNode?.replaceChild(fallback, img);
-        });
-        
-        img.addEventListener('load', () => {
-          console.log(`✅ [Prism] Image loaded successfully: ${img.src}`);
-        });
-      });
-    }, 100);
-    
-    // Only select elements within the actual generated content, not workspace UI
-    const contentElements = contentWrapper.querySelectorAll('*:not(script):not(style)');
-    
-    contentElements.forEach(element => {
-      const htmlElement = element as HTMLElement;
-      
-      // Skip elements that should not be selectable
-      if (htmlElement.hasAttribute('data-step1-styles') || 
-          htmlElement.hasAttribute('data-step1-content') ||
-          htmlElement.closest('.workspace-header') ||
-          htmlElement.closest('.workspace-sidebar') ||
-          htmlElement.closest('.properties-panel')) {
-        return;
-      }
-      
-      // Ensure element starts with clean styling
-      htmlElement.style.outline = '';
-      htmlElement.style.outlineOffset = '';
-      htmlElement.classList.remove('step1-selected');
-      htmlElement.classList.remove('step1-selected-gradient-text');
-      // Clean up stored CSS variables
-      htmlElement.style.removeProperty('--original-background');
-      htmlElement.style.removeProperty('--original-background-clip');
-      htmlElement.style.removeProperty('--original-text-fill-color');
-      
-      // Set initial cursor state for all elements
-      if (isTextElement(htmlElement)) {
-        htmlElement.style.cursor = 'text';
-        htmlElement.title = 'Double-click to edit text';
-      } else {
-        htmlElement.style.cursor = 'pointer';
-      }
-      
-      // Single click for selection
-      htmlElement.addEventListener('click', (event) => {
-        event.preventDefault();
-        event.stopPropagation();
-        
-        // Don't trigger selection if we're in inline edit mode
-        if (inlineEdit?.isEditing) {
-          return;
-        }
-        
-        // Additional check: don't trigger selection if properties panel is open
-        const propertiesPanel = document.querySelector('.properties-panel');
-        if (propertiesPanel) {
-          console.log('🎯 Properties panel is open, skipping element selection');
-          return;
-        }
-        
-        // Additional check: don't trigger selection if we're in the editor container
-        const editorContainer = document.querySelector('.editor-container');
-        if (editorContainer && editorContainer.contains(event.target as Node)) {
-          console.log('🎯 Click inside editor container, checking if it\'s the panel');
-          
-          // Check if the click target is inside the properties panel
-          let currentTarget: Node | null = event.target as Node;
-          while (currentTarget && currentTarget !== editorContainer) {
-            if (currentTarget instanceof Element && currentTarget.classList.contains('properties-panel')) {
-              console.log('🎯 Click is inside properties panel, skipping element selection');
-              return;
-            }
-            currentTarget = currentTarget.parentNode;
-          }
-        }
-        
-        // Clear previous selections
-        previewContainerRef.current?.querySelectorAll('.step1-selected').forEach(el => {
-          el.classList.remove('step1-selected');
-          el.classList.remove('step1-selected-gradient-text');
-          // Clean up stored CSS variables
-          (el as HTMLElement).style.removeProperty('--original-background');
-          (el as HTMLElement).style.removeProperty('--original-background-clip');
-          (el as HTMLElement).style.removeProperty('--original-text-fill-color');
-        });
-        
-        // Check if this element uses gradient text
-        const computedStyle = window.getComputedStyle(htmlElement);
-        const backgroundClip = computedStyle.backgroundClip || computedStyle.webkitBackgroundClip;
-        const textFillColor = computedStyle.webkitTextFillColor;
-        const background = computedStyle.background;
-        const color = computedStyle.color;
-        
-        const hasGradientText = (
-          backgroundClip === 'text' || 
-          textFillColor === 'transparent' ||
-          (color === 'transparent' && background.includes('gradient')) ||
-          background.includes('linear-gradient') && (color === 'transparent' || textFillColor === 'transparent')
-        );
-        
-        console.log(`[Gradient Detection] Element:`, htmlElement);
-        console.log(`[Gradient Detection] backgroundClip: '${backgroundClip}'`);
-        console.log(`[Gradient Detection] textFillColor: '${textFillColor}'`);
-        console.log(`[Gradient Detection] color: '${color}'`);
-        console.log(`[Gradient Detection] background: '${background}'`);
-        console.log(`[Gradient Detection] hasGradientText: ${hasGradientText}`);
-        
-        htmlElement.classList.add('step1-selected');
-        
-        // Add special class for gradient text elements to preserve their background
-        if (hasGradientText) {
-          htmlElement.classList.add('step1-selected-gradient-text');
-          // Store the original gradient background to preserve it
-          htmlElement.style.setProperty('--original-background', background);
-          htmlElement.style.setProperty('--original-background-clip', backgroundClip);
-          htmlElement.style.setProperty('--original-text-fill-color', textFillColor);
-          console.log(`[Gradient Detection] Added gradient text class and stored original styles`);
-        }
-        
-        const selector = getElementSelector(htmlElement);
-        onElementSelect({
-          element: htmlElement,
-          selector
-        });
-      });
-
-      // Double click for inline text editing
-      if (isTextElement(htmlElement)) {
-        htmlElement.addEventListener('dblclick', (event) => {
-          event.preventDefault();
-          event.stopPropagation();
-          event.stopImmediatePropagation(); // Stop any other event handlers
-          
-          // Prevent any animations or transitions temporarily
-          const originalTransition = htmlElement.style.transition;
-          const originalAnimation = htmlElement.style.animation;
-          htmlElement.style.transition = 'none';
-          htmlElement.style.animation = 'none';
-          
-          console.log(`[Inline Edit] Double-clicked text element: "${htmlElement.textContent}"`);
-          startInlineEdit(htmlElement);
-          
-          // Restore transitions after a delay
-          setTimeout(() => {
-            htmlElement.style.transition = originalTransition;
-            htmlElement.style.animation = originalAnimation;
-          }, 100);
-        });
-      }
-      
-      htmlElement.addEventListener('mouseenter', () => {
-        if (!htmlElement.classList.contains('step1-selected')) {
-          // Only show subtle hover effect on actual hover, not persistent
-          htmlElement.style.outline = '1px solid rgba(59, 130, 246, 0.3)';
-          htmlElement.style.outlineOffset = '1px';
-          // Ensure pointer cursor is shown consistently
-          if (!isTextElement(htmlElement)) {
-            htmlElement.style.cursor = 'pointer';
-          }
-        }
-      });
-      
-      htmlElement.addEventListener('mouseleave', () => {
-        if (!htmlElement.classList.contains('step1-selected')) {
-          htmlElement.style.outline = '';
-          htmlElement.style.outlineOffset = '';
-          // Maintain appropriate cursor based on element type
-          if (isTextElement(htmlElement)) {
-            htmlElement.style.cursor = 'text';
-          } else {
-            htmlElement.style.cursor = 'pointer';
-          }
-        }
-      });
-    });
-    
-    
-  }, [generatedResult, editMode, onElementSelect, inlineEdit, isTextElement, startInlineEdit]);
-
-  // Only load content when entering edit mode for the first time
-  useEffect(() => {
-    if (editMode && generatedResult && previewContainerRef.current) {
-      // Only load if we don't have content yet
-      if (!previewContainerRef.current.querySelector('[data-step1-content]')) {
-        setTimeout(() => {
-          loadPreviewContent();
-        }, 100);
-      }
-    }
-  }, [editMode, generatedResult, loadPreviewContent]);
-
-  // Simple edit persistence - save and apply immediately
-  const addStyleEdit = useCallback((selector: string, property: string, value: string) => {
-    if (!currentProject?.id) return;
-
-    // Save to localStorage immediately
-    const key = `edits-${currentProject.id}`;
-    const existing = localStorage.getItem(key);
-    let edits = existing ? JSON.parse(existing) : [];
-    
-    // Remove any existing edit for this selector+property
-    edits = edits.filter((e: any) => !(e.selector === selector && e.property === property));
-    
-    // Add new edit
-    edits.push({ selector, property, value, timestamp: Date.now() });
-    localStorage.setItem(key, JSON.stringify(edits));
-
-    // Apply immediately to DOM
-    const contentWrapper = previewContainerRef.current?.querySelector('[data-step1-content]');
-    if (contentWrapper) {
-      const elements = contentWrapper.querySelectorAll(selector);
-      elements.forEach(element => {
-        if (element instanceof HTMLElement) {
-          if (property === 'textContent') {
-            element.textContent = value;
-          } else {
-            element.style.setProperty(property, value, 'important');
-          }
-        }
-      });
-    }
-  }, [currentProject?.id]);
+  // The page runs in its own document, with the agent that makes it editable (lib/previewAgent.ts)
+  const srcDoc = useMemo(
+    () => generatedResult ? withPreviewAgent(renderFinalHtml(generatedResult.code, edits), { pauseScripts: scriptsPaused }) : '',
+    [generatedResult, edits, scriptsPaused]
+  );
 
-  // Load and apply saved edits when project loads
   useEffect(() => {
-    if (!currentProject?.id) return;
-    
-    const key = `edits-${currentProject.id}`;
-    const saved = localStorage.getItem(key);
-    
-    if (saved) {
-      setTimeout(() => {
-        const contentWrapper = previewContainerRef.current?.querySelector('[data-step1-content]');
-        if (contentWrapper) {
-          const edits = JSON.parse(saved);
-          edits.forEach((edit: any) => {
-            const elements = contentWrapper.querySelectorAll(edit.selector);
-            elements.forEach(element => {
-              if (element instanceof HTMLElement) {
-                if (edit.property === 'textContent') {
-                  element.textContent = edit.value;
-                } else {
-                  element.style.setProperty(edit.property, edit.value, 'important');
-                }
-              }
-            });
-          });
+    const handleMessage = (event: MessageEvent) => {
+      if (event.source !== frameRef.current?.contentWindow || !isAgentMessage(event.data)) return;
+      const message = event.data;
+      switch (message.type) {
+        case 'ready':
+          clearConsole();
+          break;
+        case 'console':
+          addConsoleEntry(message.level, message.text, message.source);
+          break;
+        case 'select':
+          onElementSelect(message.element);
+          break;
+        case 'text-edit':
+          console.log(`[Inline Edit] Saved new text: "${message.text}"`);
+          addStyleEdit?.(message.target, 'textContent', message.text);
+          break;
+        case 'keydown': {
+          // Replayed here so the workspace's shortcuts work while the preview has focus
+          const { key, ctrlKey, metaKey, shiftKey, altKey } = message;
+          document.dispatchEvent(new KeyboardEvent('keydown', { key, ctrlKey, metaKey, shiftKey, altKey }));
+          break;
         }
-      }, 100);
-    }
-  }, [currentProject?.id, refreshKey]);
-
-  // Function to insert icon into preview
-  const insertIcon = useCallback((iconName: string, iconSvg: string) => {
-    const contentWrapper = previewContainerRef.current?.querySelector('[data-step1-content]');
-    if (!contentWrapper) return;
-
-    // Create icon element
-    const iconElement = document.createElement('div');
-    iconElement.className = 'prism-inserted-icon';
-    iconElement.innerHTML = iconSvg;
-    iconElement.style.cssText = `
-      display: inline-block;
-      width: 24px;
-      height: 24px;
-      color: currentColor;
-      cursor: pointer;
-      margin: 8px;
-      transition: all 0.2s ease;
-    `;
-    iconElement.setAttribute('data-icon-name', iconName);
-    iconElement.setAttribute('data-prism-icon', 'true');
-
-    // Style the SVG inside
-    const svg = iconElement.querySelector('svg');
-    if (svg) {
-      svg.style.cssText = `
-        width: 100%;
-        height: 100%;
-        stroke: currentColor;
-        fill: none;
-      `;
-    }
-
-    // Find a good insertion point (try to insert at the beginning of the first container)
-    const firstContainer = contentWrapper.querySelector('div, section, main, header') || contentWrapper;
-    if (firstContainer.firstChild) {
-      firstContainer.insertBefore(iconElement, firstContainer.firstChild);
-    } else {
-      firstContainer.appendChild(iconElement);
-    }
-
-    // Make the icon selectable like other elements
-    iconElement.addEventListener('click', (event) => {
-      event.preventDefault();
-      event.stopPropagation();
-      
-      // Clear previous selections
-      previewContainerRef.current?.querySelectorAll('.step1-selected').forEach(el => {
-        el.classList.remove('step1-selected');
-      });
-      
-      iconElement.classList.add('step1-selected');
-      const selector = `[data-icon-name="${iconName}"]`;
-      onElementSelect({
-        element: iconElement,
-        selector
-      });
-    });
-
-    iconElement.addEventListener('mouseenter', () => {
-      if (!iconElement.classList.contains('step1-selected')) {
-        iconElement.style.outline = '1px solid rgba(59, 130, 246, 0.3)';
-        iconElement.style.outlineOffset = '1px';
       }
-    });
-    
-    iconElement.addEventListener('mouseleave', () => {
-      if (!iconElement.classList.contains('step1-selected')) {
-        iconElement.style.outline = '';
-        iconElement.style.outlineOffset = '';
-      }
-    });
+    };
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, [frameRef, onElementSelect, addStyleEdit]);
 
-    console.log(`[Icon Insert] Added ${iconName} icon to preview`);
-  }, [onElementSelect]);
-  
   return (
     <div 
-      ref={previewContainerRef}
       className={className}
       data-prism-preview-container
       style={{ 
@@ -737,7 +172,15 @@ const LivePreview = memo(({ generatedResult, editMode, onElementSelect, classNam
         position: 'relative',
         background: 'transparent',
       }}
-    />
+    >
+      <iframe
+        ref={frameRef}
+        srcDoc={srcDoc}
+        title="Editable Interface Preview"
+        className="preview-iframe"
+        sandbox="allow-scripts"
+      />
+    </div>
   );
 });
 LivePreview.displayName = 'LivePreview';
@@ -818,11 +261,11 @@ const generateThumbnail = (htmlContent: string): Promise<string> => {
   });
 };
 
-const PropertiesPanel = ({ selectedElement, onClose, addStyleEdit, generateSelectorForElement, panelInteractionRef }: { 
+const PropertiesPanel = ({ selectedElement, onClose, addStyleEdit, previewStyles, panelInteractionRef }: { 
   selectedElement: SelectedElement | null; 
   onClose: () => void;
-  addStyleEdit?: (selector: string, property: string, value: string) => void;
-  generateSelectorForElement?: (element: HTMLElement) => string;
+  addStyleEdit?: (element: SelectedElement, property: string, value: string) => void; // Records the edit and shows it
+  previewStyles?: (target: EditTarget | null, styles: Record<string, string>) => void; // Shows styles without recording them; null: the page
   panelInteractionRef?: React.MutableRefObject<boolean>;
 }) => {
   const [properties, setProperties] = useState<EditableProperties>({});
@@ -862,30 +305,32 @@ const PropertiesPanel = ({ selectedElement, onClose, addStyleEdit, generateSelec
   ], []);
 
   // Check if this is a page-level element that should have page background editing
-  const isPageLevelElement = (element: HTMLElement): boolean => {
+  const isPageLevelElement = (element: SelectedElement): boolean => {
     const tagName = element.tagName.toLowerCase();
-    const hasPageLevelClass = element.classList.contains('hero') || 
-                              element.classList.contains('main') || 
-                              element.classList.contains('container') ||
-                              element.classList.contains('page') ||
-                              element.classList.contains('content');
+    const classes = element.className.split(/\s+/);
+    const hasPageLevelClass = classes.includes('hero') || 
+                              classes.includes('main') || 
+                              classes.includes('container') ||
+                              classes.includes('page') ||
+                              classes.includes('content');
     
     return tagName === 'body' || 
            tagName === 'main' || 
            hasPageLevelClass ||
-           (tagName === 'section' && element.parentElement?.tagName.toLowerCase() === 'body') ||
-           (tagName === 'div' && element.parentElement?.tagName.toLowerCase() === 'body');
+           (tagName === 'section' && element.parentTagName.toLowerCase() === 'body') ||
+           (tagName === 'div' && element.parentTagName.toLowerCase() === 'body');
   };
 
   useEffect(() => {
     if (selectedElement) {
-      console.log('--- New Element Selected ---', selectedElement.element);
-      const computedStyle = window.getComputedStyle(selectedElement.element);
+      console.log('--- New Element Selected ---', selectedElement.target);
+      // Computed in the preview frame (see SNAPSHOT_STYLES in lib/previewProtocol.ts)
+      const computedStyle = selectedElement.styles;
       
       console.log('--- Key Computed Styles for Gradient Detection ---');
       const keyProps = ['color', 'background', 'background-image', 'background-clip', '-webkit-background-clip', '-webkit-text-fill-color'];
       keyProps.forEach(prop => {
-        const value = computedStyle.getPropertyValue(prop);
+        const value = computedStyle[prop];
         console.log(`[Key Style] ${prop}: '${value}'`);
       });
       console.log('--- End of Key Computed Styles ---');
@@ -893,33 +338,12 @@ const PropertiesPanel = ({ selectedElement, onClose, addStyleEdit, generateSelec
       const initialProperties: EditableProperties = {};
       
       // Special handling for page-level elements
-      const isPageLevel = isPageLevelElement(selectedElement.element);
+      const isPageLevel = isPageLevelElement(selectedElement);
       if (isPageLevel) {
-        console.log(`[Page Background] Detected page-level element: ${selectedElement.element.tagName}`);
+        console.log(`[Page Background] Detected page-level element: ${selectedElement.tagName}`);
         
-        // Try to get the actual page background from various sources
-        const containerElement = selectedElement.element.closest('[data-prism-preview-container]') as HTMLElement;
-        let pageBackgroundColor = '';
-        
-        if (containerElement) {
-          // Check container background
-          const containerStyle = window.getComputedStyle(containerElement);
-          pageBackgroundColor = containerStyle.backgroundColor;
-          console.log(`[Page Background] Container background: '${pageBackgroundColor}'`);
-          
-          // If transparent, check for background styles in document
-          if (pageBackgroundColor === 'rgba(0, 0, 0, 0)' || pageBackgroundColor === 'transparent') {
-            // Look for body styles in the document
-            const bodyElements = containerElement.querySelectorAll('body, [style*="background"]');
-            bodyElements.forEach(el => {
-              const style = window.getComputedStyle(el as HTMLElement);
-              if (style.backgroundColor !== 'rgba(0, 0, 0, 0)' && style.backgroundColor !== 'transparent') {
-                pageBackgroundColor = style.backgroundColor;
-                console.log(`[Page Background] Found body background: '${pageBackgroundColor}'`);
-              }
-            });
-          }
-        }
+        const pageBackgroundColor = selectedElement.pageBackground;
+        console.log(`[Page Background] Body background: '${pageBackgroundColor}'`);
         
         // Add page background as a special property
         if (pageBackgroundColor && pageBackgroundColor !== 'rgba(0, 0, 0, 0)' && pageBackgroundColor !== 'transparent') {
@@ -933,12 +357,12 @@ const PropertiesPanel = ({ selectedElement, onClose, addStyleEdit, generateSelec
       
       editablePropsList.forEach(prop => {
         const cssProp = prop.replace(/([A-Z])/g, '-$1').toLowerCase();
-        let value = computedStyle.getPropertyValue(cssProp).trim();
+        let value = computedStyle[cssProp] || '';
         
         // Special handling for gradient text elements
         if (prop === 'color') {
-          const backgroundClip = computedStyle.backgroundClip || computedStyle.webkitBackgroundClip;
-          const textFillColor = computedStyle.webkitTextFillColor;
+          const backgroundClip = computedStyle['background-clip'] || computedStyle['-webkit-background-clip'];
+          const textFillColor = computedStyle['-webkit-text-fill-color'];
           
           console.log(`[Style Fetch] Checking color property:`);
           console.log(`[Style Fetch] - color: '${value}'`);
@@ -954,13 +378,10 @@ const PropertiesPanel = ({ selectedElement, onClose, addStyleEdit, generateSelec
           
           if (isTransparentText || hasTextClip) {
             // This might be gradient text, try to get the original gradient
-            // Check if we stored the original background during selection
-            const originalBackground = selectedElement.element.style.getPropertyValue('--original-background');
-            const background = originalBackground || computedStyle.background;
-            const backgroundImage = computedStyle.backgroundImage;
+            const background = computedStyle.background;
+            const backgroundImage = computedStyle['background-image'];
             
             console.log(`[Style Fetch] Detected potential gradient text`);
-            console.log(`[Style Fetch] - originalBackground: '${originalBackground}'`);
             console.log(`[Style Fetch] - background: '${background}'`);
             console.log(`[Style Fetch] - backgroundImage: '${backgroundImage}'`);
             
@@ -1012,8 +433,8 @@ const PropertiesPanel = ({ selectedElement, onClose, addStyleEdit, generateSelec
         console.log(`[Style Fetch] ${cssProp}: '${value}'`);
       });
 
-      if (selectedElement.element.children.length === 0 && selectedElement.element.textContent) {
-        initialProperties.textContent = selectedElement.element.textContent;
+      if (selectedElement.text !== null) {
+        initialProperties.textContent = selectedElement.text;
         console.log(`[Style Fetch] textContent: '${initialProperties.textContent}'`);
       }
       
@@ -1028,46 +449,37 @@ const PropertiesPanel = ({ selectedElement, onClose, addStyleEdit, generateSelec
     console.log(`[Style Set] Property: '${property}', Value: '${value}'`);
     setProperties(prev => ({ ...prev, [property]: value }));
 
-    // 🎯 EDIT PERSISTENCE: Generate selector and track the edit
-    let selector = '';
-    if (generateSelectorForElement) {
-      selector = generateSelectorForElement(selectedElement.element);
-      console.log(`🎯 Generated selector for edit tracking: ${selector}`);
-    }
+    // 🎯 EDIT PERSISTENCE: Track the edit against the element (see lib/elementIdentity.ts)
+    const element = selectedElement;
 
     if (property === 'textContent') {
-      selectedElement.element.textContent = value;
-      if (addStyleEdit && selector) {
-        addStyleEdit(selector, property, value);
+      if (addStyleEdit) {
+        addStyleEdit(element, property, value);
       }
     } else if (property === 'pageBackground') {
       // Handle page background changes
       console.log(`[Page Background] Setting page background to: '${value}'`);
       
-      // Find the preview container and apply background
-      const containerElement = selectedElement.element.closest('[data-prism-preview-container]') as HTMLElement;
-      if (containerElement) {
-        containerElement.style.setProperty('background-color', value, 'important');
-        containerElement.style.setProperty('background', value, 'important');
-        console.log(`[Page Background] Applied to container: '${value}'`);
-      }
+      // Apply to the page's body
+      previewStyles?.(null, { 'background-color': value, background: value });
+      console.log(`[Page Background] Applied to page: '${value}'`);
       
       // Also try to apply to the selected element if it's a main container
-      const tagName = selectedElement.element.tagName.toLowerCase();
-      const hasPageLevelClass = selectedElement.element.classList.contains('hero') || 
-                                selectedElement.element.classList.contains('main') || 
-                                selectedElement.element.classList.contains('container');
+      const tagName = selectedElement.tagName.toLowerCase();
+      const classes = selectedElement.className.split(/\s+/);
+      const hasPageLevelClass = classes.includes('hero') || 
+                                classes.includes('main') || 
+                                classes.includes('container');
       const isPageLevel = tagName === 'body' || tagName === 'main' || hasPageLevelClass ||
-                         (tagName === 'section' && selectedElement.element.parentElement?.tagName.toLowerCase() === 'body');
+                         (tagName === 'section' && selectedElement.parentTagName.toLowerCase() === 'body');
       
       if (isPageLevel) {
-        selectedElement.element.style.setProperty('background-color', value, 'important');
-        selectedElement.element.style.setProperty('background', value, 'important');
+        previewStyles?.(selectedElement.target, { 'background-color': value, background: value });
         console.log(`[Page Background] Applied to selected element: '${value}'`);
       }
       
-      if (addStyleEdit && selector) {
-        addStyleEdit(selector, property, value);
+      if (addStyleEdit) {
+        addStyleEdit(element, property, value);
       }
       
     } else if (property === 'color') {
@@ -1086,19 +498,17 @@ const PropertiesPanel = ({ selectedElement, onClose, addStyleEdit, generateSelec
           const newGradient = `linear-gradient(135deg, ${colorStops})`;
           console.log(`[Style Set] Applying new gradient: ${newGradient}`);
           
-          // Apply the gradient to the element
-          selectedElement.element.style.setProperty('background', newGradient, 'important');
-          selectedElement.element.style.setProperty('background-clip', 'text', 'important');
-          selectedElement.element.style.setProperty('-webkit-background-clip', 'text', 'important');
-          selectedElement.element.style.setProperty('-webkit-text-fill-color', 'transparent', 'important');
-          selectedElement.element.style.setProperty('color', 'transparent', 'important');
-          
-          // Update the stored original background
-          selectedElement.element.style.setProperty('--original-background', newGradient);
+          // Keep the text clipped to the gradient
+          previewStyles?.(selectedElement.target, {
+            'background-clip': 'text',
+            '-webkit-background-clip': 'text',
+            '-webkit-text-fill-color': 'transparent',
+            color: 'transparent',
+          });
           
           // Track the gradient edit with the full gradient value
-          if (addStyleEdit && selector) {
-            addStyleEdit(selector, 'background', newGradient);
+          if (addStyleEdit) {
+            addStyleEdit(element, 'background', newGradient);
           }
           
           console.log(`[Style Set] Applied gradient background to element`);
@@ -1110,16 +520,14 @@ const PropertiesPanel = ({ selectedElement, onClose, addStyleEdit, generateSelec
       
       // Regular color handling
       const cssProp = property.replace(/([A-Z])/g, '-$1').toLowerCase();
-      selectedElement.element.style.setProperty(cssProp, value, 'important');
-      if (addStyleEdit && selector) {
-        addStyleEdit(selector, cssProp, value);
+      if (addStyleEdit) {
+        addStyleEdit(element, cssProp, value);
       }
       console.log(`[Style Set] Applied '${cssProp}: ${value} !important' to element.`);
     } else {
       const cssProp = property.replace(/([A-Z])/g, '-$1').toLowerCase();
-      selectedElement.element.style.setProperty(cssProp, value, 'important');
-      if (addStyleEdit && selector) {
-        addStyleEdit(selector, cssProp, value);
+      if (addStyleEdit) {
+        addStyleEdit(element, cssProp, value);
       }
       console.log(`[Style Set] Applied '${cssProp}: ${value} !important' to element.`);
     }
@@ -1129,7 +537,7 @@ const PropertiesPanel = ({ selectedElement, onClose, addStyleEdit, generateSelec
     return null;
   }
   
-  const { element } = selectedElement;
+  const element = selectedElement;
 
   return (
     <div 
@@ -1179,24 +587,14 @@ const PropertiesPanel = ({ selectedElement, onClose, addStyleEdit, generateSelec
                 type="color"
                 className="color-input"
                 defaultValue="#1a1a2e"
-                onChange={(e) => {
-                  const container = document.querySelector('[data-prism-preview-container]');
-                  if (container) {
-                    (container as HTMLElement).style.background = e.target.value;
-                  }
-                }}
+                onChange={(e) => previewStyles?.(null, { background: e.target.value })}
               />
               <input
                 type="text"
                 className="text-input"
                 defaultValue="#1a1a2e"
                 placeholder="#1a1a2e"
-                onChange={(e) => {
-                  const container = document.querySelector('[data-prism-preview-container]');
-                  if (container) {
-                    (container as HTMLElement).style.background = e.target.value;
-                  }
-                }}
+                onChange={(e) => previewStyles?.(null, { background: e.target.value })}
               />
             </div>
           </div>
@@ -1576,7 +974,7 @@ const PropertiesPanel = ({ selectedElement, onClose, addStyleEdit, generateSelec
                         const blur = (e.target.parentElement?.parentElement?.querySelector('input[data-shadow="blur"]') as HTMLInputElement)?.value || '4';
                         const color = (e.target.parentElement?.parentElement?.querySelector('input[data-shadow="color"]') as HTMLInputElement)?.value || '#000000';
                         const shadowValue = `${xOffset}px ${yOffset}px ${blur}px ${color}`;
-                        addStyleEdit?.(generateSelectorForElement?.(element) || '', 'text-shadow', shadowValue);
+                        addStyleEdit?.(element, 'text-shadow', shadowValue);
                       }}
                       style={{ flex: 1, marginLeft: '8px' }}
                     />
@@ -1597,7 +995,7 @@ const PropertiesPanel = ({ selectedElement, onClose, addStyleEdit, generateSelec
                         const blur = (e.target.parentElement?.parentElement?.querySelector('input[data-shadow="blur"]') as HTMLInputElement)?.value || '4';
                         const color = (e.target.parentElement?.parentElement?.querySelector('input[data-shadow="color"]') as HTMLInputElement)?.value || '#000000';
                         const shadowValue = `${xOffset}px ${yOffset}px ${blur}px ${color}`;
-                        addStyleEdit?.(generateSelectorForElement?.(element) || '', 'text-shadow', shadowValue);
+                        addStyleEdit?.(element, 'text-shadow', shadowValue);
                         // Update display
                         const display = e.target.parentElement?.querySelector('span');
                         if (display) display.textContent = `${yOffset}px`;
@@ -1621,7 +1019,7 @@ const PropertiesPanel = ({ selectedElement, onClose, addStyleEdit, generateSelec
                         const yOffset = (e.target.parentElement?.parentElement?.querySelector('input[data-shadow="y"]') as HTMLInputElement)?.value || '2';
                         const color = (e.target.parentElement?.parentElement?.querySelector('input[data-shadow="color"]') as HTMLInputElement)?.value || '#000000';
                         const shadowValue = `${xOffset}px ${yOffset}px ${blur}px ${color}`;
-                        addStyleEdit?.(generateSelectorForElement?.(element) || '', 'text-shadow', shadowValue);
+                        addStyleEdit?.(element, 'text-shadow', shadowValue);
                         // Update display
                         const display = e.target.parentElement?.querySelector('span');
                         if (display) display.textContent = `${blur}px`;
@@ -1643,7 +1041,7 @@ const PropertiesPanel = ({ selectedElement, onClose, addStyleEdit, generateSelec
                         const yOffset = (e.target.parentElement?.parentElement?.querySelector('input[data-shadow="y"]') as HTMLInputElement)?.value || '2';
                         const blur = (e.target.parentElement?.parentElement?.querySelector('input[data-shadow="blur"]') as HTMLInputElement)?.value || '4';
                         const shadowValue = `${xOffset}px ${yOffset}px ${blur}px ${color}`;
-                        addStyleEdit?.(generateSelectorForElement?.(element) || '', 'text-shadow', shadowValue);
+                        addStyleEdit?.(element, 'text-shadow', shadowValue);
                       }}
                       style={{ marginLeft: '8px', width: '40px', height: '24px' }}
                     />
@@ -1653,7 +1051,7 @@ const PropertiesPanel = ({ selectedElement, onClose, addStyleEdit, generateSelec
                 <div style={{ marginTop: '8px' }}>
                   <button
                     onClick={() => {
-                      addStyleEdit?.(generateSelectorForElement?.(element) || '', 'text-shadow', 'none');
+                      addStyleEdit?.(element, 'text-shadow', 'none');
                     }}
                     style={{
                       padding: '4px 8px',
@@ -1683,12 +1081,11 @@ const PropertiesPanel = ({ selectedElement, onClose, addStyleEdit, generateSelec
             <div className="property-item">
               <button
                 onClick={() => {
-                  const selector = generateSelectorForElement?.(element) || '';
-                  addStyleEdit?.(selector, 'backdrop-filter', 'blur(10px)');
-                  addStyleEdit?.(selector, 'background', 'rgba(255, 255, 255, 0.25)');
-                  addStyleEdit?.(selector, 'border', '1px solid rgba(255, 255, 255, 0.18)');
-                  addStyleEdit?.(selector, 'border-radius', '16px');
-                  addStyleEdit?.(selector, 'box-shadow', '0 8px 32px 0 rgba(31, 38, 135, 0.37)');
+                  addStyleEdit?.(element, 'backdrop-filter', 'blur(10px)');
+                  addStyleEdit?.(element, 'background', 'rgba(255, 255, 255, 0.25)');
+                  addStyleEdit?.(element, 'border', '1px solid rgba(255, 255, 255, 0.18)');
+                  addStyleEdit?.(element, 'border-radius', '16px');
+                  addStyleEdit?.(element, 'box-shadow', '0 8px 32px 0 rgba(31, 38, 135, 0.37)');
                 }}
                 style={{
                   width: '100%',
@@ -1732,7 +1129,7 @@ const PropertiesPanel = ({ selectedElement, onClose, addStyleEdit, generateSelec
                         const bottomRight = (e.target.parentElement?.parentElement?.querySelector('input[data-corner="bottom-right"]') as HTMLInputElement)?.value || '0';
                         const bottomLeft = (e.target.parentElement?.parentElement?.querySelector('input[data-corner="bottom-left"]') as HTMLInputElement)?.value || '0';
                         const borderRadius = `${topLeft}px ${topRight}px ${bottomRight}px ${bottomLeft}px`;
-                        addStyleEdit?.(generateSelectorForElement?.(element) || '', 'border-radius', borderRadius);
+                        addStyleEdit?.(element, 'border-radius', borderRadius);
                         // Update display
                         const display = e.target.nextElementSibling;
                         if (display) display.textContent = `${topLeft}px`;
@@ -1756,7 +1153,7 @@ const PropertiesPanel = ({ selectedElement, onClose, addStyleEdit, generateSelec
                         const bottomRight = (e.target.parentElement?.parentElement?.querySelector('input[data-corner="bottom-right"]') as HTMLInputElement)?.value || '0';
                         const bottomLeft = (e.target.parentElement?.parentElement?.querySelector('input[data-corner="bottom-left"]') as HTMLInputElement)?.value || '0';
                         const borderRadius = `${topLeft}px ${topRight}px ${bottomRight}px ${bottomLeft}px`;
-                        addStyleEdit?.(generateSelectorForElement?.(element) || '', 'border-radius', borderRadius);
+                        addStyleEdit?.(element, 'border-radius', borderRadius);
                         // Update display
                         const display = e.target.nextElementSibling;
                         if (display) display.textContent = `${topRight}px`;
@@ -1780,7 +1177,7 @@ const PropertiesPanel = ({ selectedElement, onClose, addStyleEdit, generateSelec
                         const topRight = (e.target.parentElement?.parentElement?.querySelector('input[data-corner="top-right"]') as HTMLInputElement)?.value || '0';
                         const bottomLeft = (e.target.parentElement?.parentElement?.querySelector('input[data-corner="bottom-left"]') as HTMLInputElement)?.value || '0';
                         const borderRadius = `${topLeft}px ${topRight}px ${bottomRight}px ${bottomLeft}px`;
-                        addStyleEdit?.(generateSelectorForElement?.(element) || '', 'border-radius', borderRadius);
+                        addStyleEdit?.(element, 'border-radius', borderRadius);
                         // Update display
                         const display = e.target.nextElementSibling;
                         if (display) display.textContent = `${bottomRight}px`;
@@ -1804,7 +1201,7 @@ const PropertiesPanel = ({ selectedElement, onClose, addStyleEdit, generateSelec
                         const topRight = (e.target.parentElement?.parentElement?.querySelector('input[data-corner="top-right"]') as HTMLInputElement)?.value || '0';
                         const bottomRight = (e.target.parentElement?.parentElement?.querySelector('input[data-corner="bottom-right"]') as HTMLInputElement)?.value || '0';
                         const borderRadius = `${topLeft}px ${topRight}px ${bottomRight}px ${bottomLeft}px`;
-                        addStyleEdit?.(generateSelectorForElement?.(element) || '', 'border-radius', borderRadius);
+                        addStyleEdit?.(element, 'border-radius', borderRadius);
                         // Update display
                         const display = e.target.nextElementSibling;
                         if (display) display.textContent = `${bottomLeft}px`;
@@ -1818,8 +1215,7 @@ const PropertiesPanel = ({ selectedElement, onClose, addStyleEdit, generateSelec
                 <div style={{ marginTop: '12px', display: 'flex', gap: '8px' }}>
                   <button
                     onClick={() => {
-                      const selector = generateSelectorForElement?.(element) || '';
-                      addStyleEdit?.(selector, 'border-radius', '8px');
+                      addStyleEdit?.(element, 'border-radius', '8px');
                     }}
                     style={{
                       flex: 1,
@@ -1836,8 +1232,7 @@ const PropertiesPanel = ({ selectedElement, onClose, addStyleEdit, generateSelec
                   </button>
                   <button
                     onClick={() => {
-                      const selector = generateSelectorForElement?.(element) || '';
-                      addStyleEdit?.(selector, 'border-radius', '50%');
+                      addStyleEdit?.(element, 'border-radius', '50%');
                     }}
                     style={{
                       flex: 1,
@@ -1854,8 +1249,7 @@ const PropertiesPanel = ({ selectedElement, onClose, addStyleEdit, generateSelec
                   </button>
                   <button
                     onClick={() => {
-                      const selector = generateSelectorForElement?.(element) || '';
-                      addStyleEdit?.(selector, 'border-radius', '0');
+                      addStyleEdit?.(element, 'border-radius', '0');
                     }}
                     style={{
                       flex: 1,
@@ -1881,8 +1275,7 @@ const PropertiesPanel = ({ selectedElement, onClose, addStyleEdit, generateSelec
                 <div className="shadow-presets" style={{ marginBottom: '12px', display: 'flex', gap: '8px' }}>
                   <button
                     onClick={() => {
-                      const selector = generateSelectorForElement?.(element) || '';
-                      addStyleEdit?.(selector, 'box-shadow', '0 4px 6px -1px rgba(0, 0, 0, 0.1), 0 2px 4px -1px rgba(0, 0, 0, 0.06)');
+                      addStyleEdit?.(element, 'box-shadow', '0 4px 6px -1px rgba(0, 0, 0, 0.1), 0 2px 4px -1px rgba(0, 0, 0, 0.06)');
                     }}
                     style={{
                       flex: 1,
@@ -1899,8 +1292,7 @@ const PropertiesPanel = ({ selectedElement, onClose, addStyleEdit, generateSelec
                   </button>
                   <button
                     onClick={() => {
-                      const selector = generateSelectorForElement?.(element) || '';
-                      addStyleEdit?.(selector, 'box-shadow', '0 10px 15px -3px rgba(0, 0, 0, 0.1), 0 4px 6px -2px rgba(0, 0, 0, 0.05)');
+                      addStyleEdit?.(element, 'box-shadow', '0 10px 15px -3px rgba(0, 0, 0, 0.1), 0 4px 6px -2px rgba(0, 0, 0, 0.05)');
                     }}
                     style={{
                       flex: 1,
@@ -1917,8 +1309,7 @@ const PropertiesPanel = ({ selectedElement, onClose, addStyleEdit, generateSelec
                   </button>
                   <button
                     onClick={() => {
-                      const selector = generateSelectorForElement?.(element) || '';
-                      addStyleEdit?.(selector, 'box-shadow', '0 25px 50px -12px rgba(0, 0, 0, 0.25)');
+                      addStyleEdit?.(element, 'box-shadow', '0 25px 50px -12px rgba(0, 0, 0, 0.25)');
                     }}
                     style={{
                       flex: 1,
@@ -1935,8 +1326,7 @@ const PropertiesPanel = ({ selectedElement, onClose, addStyleEdit, generateSelec
                   </button>
                   <button
                     onClick={() => {
-                      const selector = generateSelectorForElement?.(element) || '';
-                      addStyleEdit?.(selector, 'box-shadow', 'none');
+                      addStyleEdit?.(element, 'box-shadow', 'none');
                     }}
                     style={{
                       flex: 1,
@@ -1962,11 +1352,12 @@ const PropertiesPanel = ({ selectedElement, onClose, addStyleEdit, generateSelec
 };
 
 // CodeViewer component with Monaco Editor for rich syntax highlighting and live editing
-const CodeViewer = memo(({ generatedResult, selectedFile, onFileSelect, onCodeChange }: {
+const CodeViewer = memo(({ generatedResult, selectedFile, onFileSelect, onCodeChange, onSaveRevision }: {
   generatedResult: GeneratedResult | null;
   selectedFile: string;
   onFileSelect: (file: string) => void;
   onCodeChange: (filePath: string, newCode: string) => void;
+  onSaveRevision: (code: string) => void; // Called with the edited page code
 }) => {
   const [fileContents, setFileContents] = useState<Record<string, string>>({});
 
@@ -2057,6 +1448,11 @@ const CodeViewer = memo(({ generatedResult, selectedFile, onFileSelect, onCodeCh
       <div className="code-viewer-main">
         <div className="code-viewer-header">
           <h3>{selectedFile}</h3>
+          {selectedFile === 'src/App.tsx' && generatedResult && fileContents[selectedFile] !== undefined && fileContents[selectedFile] !== generatedResult.code && (
+            <button type="button" className="code-viewer-save" onClick={() => onSaveRevision(fileContents[selectedFile])}>
+              Save as revision
+            </button>
+          )}
         </div>
         <div className="code-viewer-content">
           <Editor
@@ -2180,7 +1576,7 @@ const CodeViewer = memo(({ generatedResult, selectedFile, onFileSelect, onCodeCh
   );
 });
 
-const LiveEditor = ({ generatedResult, editedCode, editMode, onToggleEditMode, currentViewport, refreshKey, currentProject, addStyleEdit, generateSelectorForElement, appliedProjectId }: {
+const LiveEditor = ({ generatedResult, editedCode, editMode, onToggleEditMode, currentViewport, refreshKey, currentProject, addStyleEdit, appliedProjectId, edits, scriptsPaused }: {
   generatedResult: GeneratedResult | null;
   editedCode: string;
   editMode: boolean;
@@ -2188,14 +1584,26 @@ const LiveEditor = ({ generatedResult, editedCode, editMode, onToggleEditMode, c
   currentViewport?: 'desktop' | 'tablet' | 'mobile';
   refreshKey?: number;
   currentProject?: SavedDesign | null;
-  addStyleEdit?: (selector: string, property: string, value: string) => void;
-  generateSelectorForElement?: (element: HTMLElement) => string;
+  addStyleEdit?: (target: EditTarget, property: string, value: string) => void;
   appliedProjectId?: React.MutableRefObject<string | null>;
+  edits: StyleEdit[]; // Pending style edits of the project, see lib/editStore.ts
+  scriptsPaused?: boolean; // Edit mode only: the preview loads without running the page's scripts
 }) => {
   const [selectedElement, setSelectedElement] = useState<SelectedElement | null>(null);
   const editorRef = useRef<HTMLDivElement>(null);
+  const previewFrameRef = useRef<HTMLIFrameElement>(null);
   const panelInteractionRef = useRef<boolean>(false);
 
+  // Edits from the properties panel: shown in the preview right away and recorded for the project
+  const applyStyleEdit = useCallback((element: SelectedElement, property: string, value: string) => {
+    postToAgent(previewFrameRef.current, { type: 'apply-edit', edit: { ...element.target, property, value } });
+    addStyleEdit?.(element.target, property, value);
+  }, [addStyleEdit]);
+
+  const previewStyles = useCallback((target: EditTarget | null, styles: Record<string, string>) => {
+    postToAgent(previewFrameRef.current, { type: 'preview-styles', target, styles });
+  }, []);
+
   const handleElementSelect = useCallback((element: SelectedElement | null) => {
     setSelectedElement(element);
   }, []);
@@ -2293,24 +1701,16 @@ const LiveEditor = ({ generatedResult, editedCode, editMode, onToggleEditMode, c
   useEffect(() => {
     if (!editMode) {
       setSelectedElement(null);
-      // Clear any visual selection indicators only within preview containers
-      const previewContainers = document.querySelectorAll('[data-prism-preview-container]');
-      previewContainers.forEach(container => {
-        const existingSelected = container.querySelectorAll('.step1-selected');
-        existingSelected.forEach(el => {
-          el.classList.remove('step1-selected');
-          el.classList.remove('step1-selected-gradient-text');
-          (el as HTMLElement).style.outline = '';
-          (el as HTMLElement).style.outlineOffset = '';
-          // Clean up stored CSS variables
-          (el as HTMLElement).style.removeProperty('--original-background');
-          (el as HTMLElement).style.removeProperty('--original-background-clip');
-          (el as HTMLElement).style.removeProperty('--original-text-fill-color');
-        });
-      });
     }
   }, [editMode]);
 
+  // The preview outlines the selected element until the panel closes
+  useEffect(() => {
+    if (!selectedElement) {
+      postToAgent(previewFrameRef.current, { type: 'clear-selection' });
+    }
+  }, [selectedElement]);
+
   // Panel resize handlers will be in the main App component
 
   return (
@@ -2349,22 +1749,14 @@ const LiveEditor = ({ generatedResult, editedCode, editMode, onToggleEditMode, c
             refreshKey={refreshKey}
             currentProject={currentProject}
             appliedProjectId={appliedProjectId}
+            edits={edits}
+            addStyleEdit={addStyleEdit}
+            frameRef={previewFrameRef}
+            scriptsPaused={scriptsPaused}
           />
         ) : (
           <iframe
-            srcDoc={(() => {
-              let content = editedCode || (generatedResult ? generatedResult.code : '');
-              
-              // Remove markdown code block wrappers if present
-              if (content.startsWith('```html')) {
-                content = content.replace(/^```html\s*/, '').replace(/\s*```$/, '');
-              } else if (content.startsWith('```')) {
-                content = content.replace(/^```\s*/, '').replace(/\s*```$/, '');
-              }
-              
-              console.log('🔍 [DEBUG] Iframe srcDoc content (cleaned):', content.substring(0, 300) + '...');
-              return content;
-            })()}
+            srcDoc={renderFinalHtml(editedCode || (generatedResult ? generatedResult.code : ''), edits)}
             title="Generated Interface Preview"
             className="preview-iframe"
             sandbox="allow-scripts allow-same-origin"
@@ -2394,8 +1786,8 @@ const LiveEditor = ({ generatedResult, editedCode, editMode, onToggleEditMode, c
           <PropertiesPanel 
             selectedElement={selectedElement}
             onClose={handleClosePanel}
-            addStyleEdit={addStyleEdit}
-            generateSelectorForElement={generateSelectorForElement}
+            addStyleEdit={applyStyleEdit}
+            previewStyles={previewStyles}
             panelInteractionRef={panelInteractionRef}
           />
         </div>
@@ -2409,6 +1801,7 @@ const LandingPage = ({
   savedDesigns,
   isLoading,
   selectedModel,
+  availableModels,
   onModelChange,
   onSubmit,
   onOpenProject,
@@ -2416,28 +1809,65 @@ const LandingPage = ({
   formatTimestamp,
   error,
   generationMode,
-  onGenerationModeChange
+  onGenerationModeChange,
+  usageSummary,
+  variantPresets,
+  shareLinks,
+  onRevokeShare
 }: {
   savedDesigns: SavedDesign[];
   isLoading: boolean;
-  selectedModel: 'claude-3-5-haiku' | 'claude-4';
-  onModelChange: (model: 'claude-3-5-haiku' | 'claude-4') => void;
-  onSubmit: (prompt: string, useVariants: boolean) => void;
+  selectedModel: string;
+  availableModels: ModelInfo[];
+  onModelChange: (model: string) => void;
+  onSubmit: (prompt: string, variantRequest?: VariantRequest) => void;
   onOpenProject: (design: SavedDesign) => void;
   onDeleteDesign: (id: string) => void;
   formatTimestamp: (timestamp: number) => string;
   error: string | null;
   generationMode: 'single' | 'variants';
   onGenerationModeChange: (mode: 'single' | 'variants') => void;
+  usageSummary: UsageSummary | null;
+  variantPresets: VariantPreset[];
+  shareLinks: ShareLink[];
+  onRevokeShare: (token: string) => void;
 }) => {
   const [inputPrompt, setInputPrompt] = useState('');
+  // Project card whose share links are listed
+  const [expandedSharesId, setExpandedSharesId] = useState<string | null>(null);
+  const [variantCount, setVariantCount] = useState(3);
+  // Preset keys and free-text directions, in the order they were picked
+  const [variantDirections, setVariantDirections] = useState<string[]>([]);
+  const [customDirection, setCustomDirection] = useState('');
 
   const handleFormSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!inputPrompt.trim()) return;
-    onSubmit(inputPrompt, generationMode === 'variants');
+    onSubmit(inputPrompt, generationMode === 'variants'
+      ? { count: variantCount, directions: variantDirections }
+      : undefined);
+  };
+
+  const handleVariantCountChange = (count: number) => {
+    setVariantCount(count);
+    setVariantDirections(prev => prev.slice(0, count));
   };
 
+  const toggleVariantDirection = (direction: string) => {
+    setVariantDirections(prev => prev.includes(direction)
+      ? prev.filter(d => d !== direction)
+      : prev.length < variantCount ? [...prev, direction] : prev);
+  };
+
+  const addCustomDirection = () => {
+    const direction = customDirection.trim();
+    if (!direction || variantDirections.includes(direction) || variantDirections.length >= variantCount) return;
+    setVariantDirections(prev => [...prev, direction]);
+    setCustomDirection('');
+  };
+
+  const customDirections = variantDirections.filter(direction => !variantPresets.some(preset => preset.key === direction));
+
   return (
     <div className="landing-page">
       <div className="hero">
@@ -2456,12 +1886,17 @@ const LandingPage = ({
                 <select
                   id="model-select"
                   value={selectedModel}
-                  onChange={(e) => onModelChange(e.target.value as 'claude-3-5-haiku' | 'claude-4')}
+                  onChange={(e) => onModelChange(e.target.value)}
                   className="model-dropdown"
-                  disabled={isLoading}
+                  disabled={isLoading || availableModels.length === 0}
                 >
-                  <option value="claude-4">Claude 4 (Default - Best Quality)</option>
-                  <option value="claude-3-5-haiku">Claude 3.5 Haiku (Cheapest - Fast)</option>
+                  {availableModels.length === 0 ? (
+                    <option value={selectedModel}>Loading models...</option>
+                  ) : availableModels.map(model => (
+                    <option key={model.key} value={model.key}>
+                      {model.label} ({model.description})
+                    </option>
+                  ))}
                 </select>
               </div>
               
@@ -2475,11 +1910,77 @@ const LandingPage = ({
                   disabled={isLoading}
                 >
                   <option value="single">Single Design</option>
-                  <option value="variants">2 Variants (A/B)</option>
+                  <option value="variants">Variants</option>
                 </select>
               </div>
+
+              {generationMode === 'variants' && (
+                <div className="generation-mode-selector variant-count-selector">
+                  <label htmlFor="variant-count-select">Variants:</label>
+                  <select
+                    id="variant-count-select"
+                    value={variantCount}
+                    onChange={(e) => handleVariantCountChange(Number(e.target.value))}
+                    className="generation-mode-dropdown"
+                    disabled={isLoading}
+                  >
+                    {[2, 3, 4, 5, 6].map(count => (
+                      <option key={count} value={count}>{count}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
             </div>
 
+            {generationMode === 'variants' && (
+              <div className="variant-directions">
+                <span className="variant-directions-hint">
+                  Style directions ({variantDirections.length}/{variantCount}) - the rest are picked for you
+                </span>
+                <div className="variant-direction-chips">
+                  {variantPresets.map(preset => (
+                    <button
+                      key={preset.key}
+                      type="button"
+                      className={`variant-direction-chip ${variantDirections.includes(preset.key) ? 'selected' : ''}`}
+                      onClick={() => toggleVariantDirection(preset.key)}
+                      disabled={isLoading || (!variantDirections.includes(preset.key) && variantDirections.length >= variantCount)}
+                      title={preset.description}
+                    >
+                      {preset.label}
+                    </button>
+                  ))}
+                  {customDirections.map(direction => (
+                    <button
+                      key={direction}
+                      type="button"
+                      className="variant-direction-chip selected custom"
+                      onClick={() => toggleVariantDirection(direction)}
+                      disabled={isLoading}
+                      title="Remove this direction"
+                    >
+                      {direction} ×
+                    </button>
+                  ))}
+                </div>
+                <input
+                  type="text"
+                  value={customDirection}
+                  onChange={(e) => setCustomDirection(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                      e.preventDefault();
+                      addCustomDirection();
+                    }
+                  }}
+                  placeholder="Describe your own direction, e.g. 'matches our teal and coral brand' - press Enter"
+                  className="variant-direction-input"
+                  disabled={isLoading || variantDirections.length >= variantCount}
+                  maxLength={500}
+                />
+              </div>
+            )}
+
             <div className="prompt-input-area">
               <textarea
                 value={inputPrompt}
@@ -2527,7 +2028,14 @@ const LandingPage = ({
         <div className="workspace-container">
           <div className="saved-designs">
             <div className="projects-header">
-              <h3 className="projects-title">Your Projects</h3>
+              <div className="projects-title-group">
+                <h3 className="projects-title">Your Projects</h3>
+                {usageSummary && (
+                  <span className="usage-summary" title={`${usageSummary.monthToDate.requests} model calls this month, ${formatCost(usageSummary.totals.cost)} all time`}>
+                    {formatCost(usageSummary.monthToDate.cost)} spent this month
+                  </span>
+                )}
+              </div>
               <div className="projects-controls">
                 <input type="text" placeholder="Search projects..." className="search-input" />
                 <select className="sort-dropdown">
@@ -2539,7 +2047,9 @@ const LandingPage = ({
             </div>
             
             <div className="designs-grid">
-              {savedDesigns.map((design) => (
+              {savedDesigns.map((design) => {
+                const designShares = shareLinks.filter(share => share.projectId === design.id);
+                return (
                 <div key={design.id} className="design-card clickable" onClick={() => onOpenProject(design)}>
                   <div className="design-preview">
                     {design.thumbnail ? (
@@ -2552,6 +2062,23 @@ const LandingPage = ({
                     <h4 className="design-title">{design.prompt.substring(0, 50)}{design.prompt.length > 50 ? '...' : ''}</h4>
                     <div className="design-footer">
                       <span className="design-date">{formatTimestamp(design.timestamp)}</span>
+                      {usageSummary?.byProject[design.id] && (
+                        <span className="design-cost" title={`${usageSummary.byProject[design.id].requests} model calls, ${(usageSummary.byProject[design.id].input_tokens + usageSummary.byProject[design.id].output_tokens).toLocaleString()} tokens`}>
+                          {formatCost(usageSummary.byProject[design.id].cost)}
+                        </span>
+                      )}
+                      {designShares.length > 0 && (
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setExpandedSharesId(expandedSharesId === design.id ? null : design.id);
+                          }}
+                          className={`design-shares-btn ${expandedSharesId === design.id ? 'active' : ''}`}
+                          title="Share links of this design"
+                        >
+                          🔗 {designShares.length}
+                        </button>
+                      )}
                       <button 
                         onClick={(e) => {
                           e.stopPropagation();
@@ -2566,9 +2093,20 @@ const LandingPage = ({
                         </svg>
                       </button>
                     </div>
+                    {expandedSharesId === design.id && designShares.length > 0 && (
+                      <ul className="design-shares" onClick={(e) => e.stopPropagation()}>
+                        {designShares.map(share => (
+                          <li key={share.token} className={share.expired ? 'expired' : ''}>
+                            <a href={shareLinkUrl(share)} target="_blank" rel="noreferrer">{describeShareLink(share)}</a>
+                            <button onClick={() => onRevokeShare(share.token)}>Revoke</button>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
                   </div>
                 </div>
-              ))}
+                );
+              })}
             </div>
           </div>
         </div>
@@ -2588,11 +2126,23 @@ function App() {
   }, [currentProject]);
   const [prompt, setPrompt] = useState('');
   const [inputPrompt, setInputPrompt] = useState(''); // Separate state for input field
-  const [selectedModel, setSelectedModel] = useState<'claude-3-5-haiku' | 'claude-4'>('claude-4');
+  const [selectedModel, setSelectedModel] = useState<string>('claude-4');
+  const [availableModels, setAvailableModels] = useState<ModelInfo[]>([]);
+  const [usageSummary, setUsageSummary] = useState<UsageSummary | null>(null);
   const [generationMode, setGenerationMode] = useState<'single' | 'variants'>('single');
   const [isLoading, setIsLoading] = useState(false);
   const [isGenerating, setIsGenerating] = useState(false);
   const [isPresetsPanelOpen, setIsPresetsPanelOpen] = useState(false);
+  const [isPublishPanelOpen, setIsPublishPanelOpen] = useState(false);
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [publishError, setPublishError] = useState<string | null>(null);
+  const [shareLinks, setShareLinks] = useState<ShareLink[]>([]);
+  const [isSharePanelOpen, setIsSharePanelOpen] = useState(false);
+  const [isSharing, setIsSharing] = useState(false);
+  const [shareError, setShareError] = useState<string | null>(null);
+  const [createdShareToken, setCreatedShareToken] = useState<string | null>(null);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [arePreviewScriptsPaused, setArePreviewScriptsPaused] = useState(false);
   const [grainIntensity, setGrainIntensity] = useState(0);
   const [vignetteIntensity, setVignetteIntensity] = useState(0);
   const [colorFilter, setColorFilter] = useState('none');
@@ -2601,18 +2151,37 @@ function App() {
   
   // Ref to track which project has had its edits applied to prevent duplicate applications
   const appliedProjectId = useRef<string | null>(null);
+  // Aborts the in-flight generation/variants/refine request (cancel button, leaving the workspace)
+  const generationAbortRef = useRef<AbortController | null>(null);
+  // Server-side generation job the workspace is following (see lib/generationJobs.ts)
+  const activeJobIdRef = useRef<string | null>(null);
+  // resumeGeneration for the mount-time load, which runs once and would otherwise keep the first
+  // render's copy (see where resumeGeneration is declared)
+  const resumeGenerationRef = useRef<((job: ActiveGenerationJob) => Promise<void>) | null>(null);
   const [generatedResult, setGeneratedResult] = useState<GeneratedResult | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [editedCode, setEditedCode] = useState<string>('');
   const [savedDesigns, setSavedDesigns] = useState<SavedDesign[]>([]);
+  // For effects that need the current list without re-running on every change to it
+  const savedDesignsRef = useRef(savedDesigns);
+  savedDesignsRef.current = savedDesigns;
+  // Server sync starts only after the initial load, so an empty list never deletes anything
+  const [projectsLoaded, setProjectsLoaded] = useState(false);
+  // Last version of each project sent to (or loaded from) the server
+  const syncedProjectsRef = useRef<Map<string, SavedDesign>>(new Map());
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
   const [viewTransition, setViewTransition] = useState(false);
   
   // Design Variants Feature
   const [showVariantSelector, setShowVariantSelector] = useState(false);
-  const [variantA, setVariantA] = useState<GeneratedResult | null>(null);
-  const [variantB, setVariantB] = useState<GeneratedResult | null>(null);
+  const [variants, setVariants] = useState<VariantOption[]>([]);
+  const [requestedVariantCount, setRequestedVariantCount] = useState(2);
+  const [variantPresets, setVariantPresets] = useState<VariantPreset[]>([]);
+  const [mixingVariants, setMixingVariants] = useState(false);
+  const mixerVariants = useMemo(() => variants.map(variant => ({ code: variant.code, label: variant.direction.label })), [variants]);
+  // Project whose alternates are shown in the variant selector, null when it is closed
+  const [comparingProjectId, setComparingProjectId] = useState<string | null>(null);
   const [generatingVariants, setGeneratingVariants] = useState(false);
   
   // Simple state for new edit mode
@@ -2623,6 +2192,8 @@ function App() {
   const [selectedFile, setSelectedFile] = useState('src/App.tsx');
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [currentStep, setCurrentStep] = useState<string>(''); 
+  // Partial HTML streamed from the server while a generation is in flight
+  const [partialCode, setPartialCode] = useState<string>('');
   const [refreshKey, setRefreshKey] = useState<number>(0);
   
   // Generation key to force component remount on new generation
@@ -2650,43 +2221,34 @@ function App() {
     };
   }, [isFullscreen]);
   
-  // Effect to save edits on unmount or when the project changes
+  // Style edits are saved by the edit store a moment after they are made; don't lose the last ones
   useEffect(() => {
     const saveEdits = () => {
-      if (currentProject && currentProjectEditsRef.current.length > 0) {
-        const savedDesignsRaw = localStorage.getItem('prism-saved-designs');
-        if (savedDesignsRaw) {
-          try {
-            const designs = JSON.parse(savedDesignsRaw);
-            const designIndex = designs.findIndex((d: SavedDesign) => d.id === currentProject.id);
-            if (designIndex !== -1) {
-              const hasChanges = JSON.stringify(designs[designIndex].edits) !== JSON.stringify(currentProjectEditsRef.current);
-              if (hasChanges) {
-                console.log('Finalizing edits before unmount/project change...');
-                designs[designIndex].edits = currentProjectEditsRef.current;
-                designs[designIndex].timestamp = Date.now();
-                localStorage.setItem('prism-saved-designs', JSON.stringify(designs));
-              }
-            }
-          } catch (error) {
-            console.error('Failed to save edits on exit:', error);
-          }
-        }
-      }
+      flushEdits({ keepalive: true });
     };
-
-    // Save on navigating away from the page
     window.addEventListener('beforeunload', saveEdits);
+    return () => window.removeEventListener('beforeunload', saveEdits);
+  }, []);
 
-    return () => {
-      // Cleanup: save edits and remove listener
-      saveEdits();
-      window.removeEventListener('beforeunload', saveEdits);
-    };
-  }, [currentProject]);
-
-  // Refs for edit persistence
-  const currentProjectEditsRef = useRef<StyleEdit[]>([]);
+  // Once the open design's code is its project's code (after a generation, refinement, restore or
+  // code edit), give its elements the data-prism-id edits refer to. That is no revision of its own:
+  // the page looks the same with the ids. Keyed on that code alone, so other changes to the project
+  // list don't parse the page again.
+  const openProjectCode = savedDesigns.find(d => d.id === generatedResult?.id)?.code;
+  useEffect(() => {
+    if (!generatedResult || openProjectCode !== generatedResult.code) return;
+    const project = savedDesignsRef.current.find(d => d.id === generatedResult.id);
+    if (!project) return;
+    const code = assignElementIds(project.code, getEdits(project));
+    if (code === project.code) return;
+
+    const identify = <T extends { id: string; code: string }>(item: T): T =>
+      item.id === project.id && item.code === project.code ? { ...item, code } : item;
+    setSavedDesigns(prev => prev.map(identify));
+    setGeneratedResult(prev => prev && identify(prev));
+    setCurrentProject(prev => prev && identify(prev));
+    setEditedCode(prev => prev === project.code ? code : prev);
+  }, [generatedResult, openProjectCode]);
 
   // Refs to track overlay elements and prevent re-renders
   const blurOverlayRef = useRef<HTMLElement | null>(null);
@@ -2974,9 +2536,13 @@ function App() {
     }
   }, []);
 
-  const handleToggleEditMode = useCallback(() => {
-    setEditMode(prev => !prev);
-  }, []);
+  // Leaving edit mode saves the batch of style edits made in it as a revision
+  const handleToggleEditMode = () => {
+    if (editMode) {
+      commitStyleEdits();
+    }
+    setEditMode(!editMode);
+  };
 
   // Viewport control handlers
   const handleViewportChange = useCallback((viewport: 'desktop' | 'tablet' | 'mobile') => {
@@ -2990,112 +2556,44 @@ function App() {
     console.log('[Preview] Refreshing preview content');
   }, []);
 
-  // 🎯 EDIT PERSISTENCE: Helper functions for style edit tracking
-  const generateSelectorForElement = useCallback((element: HTMLElement): string => {
-    // Generate a reliable CSS selector for the element
-    if (element.id) {
-      return `#${element.id}`;
-    }
-    
-    if (element.className) {
-      const classes = element.className.split(' ').filter(c => c.trim()).join('.');
-      if (classes) {
-        return `.${classes}`;
-      }
-    }
-    
-    // Fallback: use tag name + nth-child
-    const parent = element.parentElement;
-    if (parent) {
-      const siblings = Array.from(parent.children).filter(child => child.tagName === element.tagName);
-      const index = siblings.indexOf(element);
-      return `${element.tagName.toLowerCase()}:nth-of-type(${index + 1})`;
-    }
-    
-    return element.tagName.toLowerCase();
-  }, []);
-
-  const saveProjectWithEdits = useCallback(async (projectId: string, edits: StyleEdit[]) => {
-    console.log('🎯 Saving project with edits:', { projectId, editsCount: edits.length });
-    
-    // Only update localStorage, don't update React state during editing to prevent reloads
-    const savedDesignsRaw = localStorage.getItem('prism-saved-designs');
-    if (savedDesignsRaw) {
-      try {
-        const designs = JSON.parse(savedDesignsRaw);
-        const designIndex = designs.findIndex((d: SavedDesign) => d.id === projectId);
-        if (designIndex >= 0) {
-          designs[designIndex] = {
-            ...designs[designIndex],
-            edits: edits,
-            timestamp: Date.now()
-          };
-          localStorage.setItem('prism-saved-designs', JSON.stringify(designs));
-          console.log(' Project saved with edits to localStorage');
-
-          // Removed the setSavedDesigns call to prevent the preview from refreshing during live edits
-        }
-      } catch (error) {
-        console.error('Error updating localStorage:', error);
-      }
-    }
-  }, []);
-
-  const addStyleEdit = useCallback((selector: string, property: string, value: string) => {
-    console.log('🎯 addStyleEdit called with:', { selector, property, value, currentProject: currentProject?.id });
-    
-    const newEdit: StyleEdit = {
-      selector,
-      property,
-      value,
-      timestamp: Date.now()
-    };
-
-    // Update the ref without causing a re-render
-    const filtered = currentProjectEditsRef.current.filter(edit => 
-      !(edit.selector === selector && edit.property === property)
-    );
-    const updated = [...filtered, newEdit];
-    currentProjectEditsRef.current = updated;
-    
-    console.log('🎯 Updated edits ref, total edits:', updated.length);
-
-    // Get project ID from currentProject or fallback to localStorage
-    let projectId = currentProject?.id;
-    
+  // Record an edit made in the edit-mode preview (the preview already shows it)
+  const addStyleEdit = useCallback((target: EditTarget, property: string, value: string) => {
+    const projectId = currentProject?.id || generatedResult?.id;
     if (!projectId) {
-      // Fallback: try to get current project from localStorage
-      const savedProject = localStorage.getItem('prism-current-project');
-      if (savedProject) {
-        try {
-          const project = JSON.parse(savedProject);
-          projectId = project.id;
-          console.log('🎯 Using fallback project ID from localStorage:', projectId);
-        } catch (error) {
-          console.warn('🎯 Failed to parse saved project from localStorage');
-        }
-      }
-    }
-
-    if (projectId) {
-      console.log('🎯 Project ID found, scheduling save for project:', projectId);
-      setTimeout(() => {
-        if (!document.querySelector('[data-prism-preview-container][data-applying-edits]')) {
-          console.log('🎯 Debounced save - applying edit after delay');
-          console.log('🎯 About to save edits:', currentProjectEditsRef.current);
-          saveProjectWithEdits(projectId, currentProjectEditsRef.current);
-        } else {
-          console.log('🎯 Skipping save - currently applying edits');
-        }
-      }, 300);
-    } else {
-      console.log('🎯 WARNING: No project ID found - edit will not be saved!');
-      console.log('🎯 currentProject:', currentProject);
-      console.log('🎯 localStorage current project:', localStorage.getItem('prism-current-project'));
+      console.warn('🎯 No open project - style edit not saved:', { property, value });
+      return;
     }
-    
-    console.log('🎯 Added style edit:', newEdit);
-  }, [currentProject, saveProjectWithEdits]);
+    const project = savedDesigns.find(d => d.id === projectId) || { id: projectId };
+    const edits = addEdit(project, target, property, value);
+    console.log('🎯 Added style edit:', { ...target, property, value, total: edits.length });
+  }, [currentProject, generatedResult, savedDesigns]);
+
+  // Step through the open project's visual edits; the preview reloads to show the result
+  const stepEditHistory = useCallback((direction: 'undo' | 'redo') => {
+    const project = savedDesigns.find(d => d.id === (currentProject?.id || generatedResult?.id));
+    if (!project) return;
+    const command = direction === 'undo' ? undoEdit(project) : redoEdit(project);
+    if (!command) return;
+    console.log(`🎯 ${direction === 'undo' ? 'Undid' : 'Redid'} ${describeEditCommand(command)}:`, project.id);
+    handleRefreshPreview();
+  }, [currentProject, generatedResult, savedDesigns, handleRefreshPreview]);
+
+  // Ctrl/Cmd+Z undoes the last visual edit, Shift+Ctrl/Cmd+Z (or Ctrl+Y) redoes it. Text fields and
+  // the code editor keep their own undo.
+  useEffect(() => {
+    if (currentView === 'landing' || codeViewMode) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey || isTextEntry(event.target)) return;
+      const key = event.key.toLowerCase();
+      const isUndo = key === 'z' && !event.shiftKey;
+      const isRedo = (key === 'z' && event.shiftKey) || (key === 'y' && !event.shiftKey);
+      if (!isUndo && !isRedo) return;
+      event.preventDefault();
+      stepEditHistory(isUndo ? 'undo' : 'redo');
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [currentView, codeViewMode, stepEditHistory]);
 
 
   // Load saved designs and chat from localStorage on component mount
@@ -3103,47 +2601,38 @@ function App() {
     const loadData = async () => {
     console.log('🔧 App component mounted');
     try {
-      cleanupLocalStorage();
-      
-        const savedDesignsRaw = localStorage.getItem('prism-saved-designs');
       const savedChat = localStorage.getItem('prism-chat-messages');
       const savedView = localStorage.getItem('prism-current-view');
       const savedProject = localStorage.getItem('prism-current-project');
       const savedGeneratedResult = localStorage.getItem('prism-generated-result');
       const savedModel = localStorage.getItem('prism-selected-model');
       
-        if (savedDesignsRaw) {
+      // Projects live on the server; designs still in this browser's localStorage are imported once
+      try {
+        const imported = await migrateLocalProjects();
+        if (imported > 0) {
+          console.log(`🔧 Migrated ${imported} projects from localStorage to the server`);
+        }
+
+        const projects = await listProjects();
+        console.log('🔧 Loaded projects from the server:', projects.length);
+        syncedProjectsRef.current = new Map(projects.map(project => [project.id, project]));
+        setSavedDesigns(projects);
+        setProjectsLoaded(true);
+
+        // Projects without a thumbnail get one now; the sync effect uploads it
+        projects.filter(design => !design.thumbnail).forEach(async (design) => {
+          console.log(`🔧 Generating missing thumbnail for project: ${design.prompt.substring(0, 30)}...`);
           try {
-            const parsedDesigns: SavedDesign[] = JSON.parse(savedDesignsRaw);
-            console.log('🔧 Parsed saved designs:', parsedDesigns);
-  
-            let needsUpdate = false;
-            const updatedDesignsPromises = parsedDesigns.map(async (design) => {
-              if (!design.thumbnail) {
-                console.log(`🔧 Generating missing thumbnail for project: ${design.prompt.substring(0, 30)}...`);
-                needsUpdate = true;
-                try {
-                  const thumbnail = await generateThumbnail(design.code);
-                  return { ...design, thumbnail };
-                } catch (error) {
-                  console.error(`Failed to generate thumbnail for ${design.id}`, error);
-                  return design; // return original design on error
-                }
-              }
-              return design;
-            });
-  
-            const updatedDesigns = await Promise.all(updatedDesignsPromises);
-            setSavedDesigns(updatedDesigns);
-  
-            if (needsUpdate) {
-              console.log('🔧 Saving designs back to localStorage with new thumbnails.');
-              localStorage.setItem('prism-saved-designs', JSON.stringify(updatedDesigns));
-            }
+            const thumbnail = await generateThumbnail(renderFinalHtml(design.code, getEdits(design)));
+            setSavedDesigns(prev => prev.map(d => d.id === design.id ? { ...d, thumbnail } : d));
           } catch (error) {
-            console.error("Failed to parse or update saved designs:", error);
-            localStorage.removeItem('prism-saved-designs');
-        }
+            console.error(`Failed to generate thumbnail for ${design.id}`, error);
+          }
+        });
+      } catch (error) {
+        console.error('❌ Failed to load projects from the server:', error);
+        setError('Could not load your projects - is the Prism server running?');
       }
       
       if (savedChat) {
@@ -3189,6 +2678,12 @@ function App() {
         }
       }
 
+      // A generation that was running when the page was reloaded has kept going on the server
+      const activeJob = loadActiveJob();
+      if (activeJob) {
+        resumeGenerationRef.current?.(activeJob);
+      }
+
       // Restore selected model preference
       if (savedModel) {
         try {
@@ -3207,21 +2702,97 @@ function App() {
     loadData();
   }, []);
 
+  // Build the model dropdown from the server-side registry
+  useEffect(() => {
+    fetchAvailableModels()
+      .then(({ models }) => {
+        setAvailableModels(models);
+        console.log('🤖 Loaded models from server:', models.map(model => model.key));
+      })
+      .catch(err => {
+        console.error('❌ Error loading models from server:', err);
+      });
+  }, []);
+
+  // Style directions offered as chips in variants mode
+  useEffect(() => {
+    fetchVariantPresets()
+      .then(({ presets }) => setVariantPresets(presets))
+      .catch(err => {
+        console.error('❌ Error loading variant presets from server:', err);
+      });
+  }, []);
+
+  // Refresh spend figures whenever the dashboard is shown
+  useEffect(() => {
+    if (currentView !== 'landing') return;
+    fetchUsageSummary()
+      .then(setUsageSummary)
+      .catch(err => {
+        console.error('❌ Error loading usage summary:', err);
+      });
+  }, [currentView]);
+
+  // Share links of all projects, refreshed on every view change so expired ones show as such
+  useEffect(() => {
+    listShareLinks()
+      .then(setShareLinks)
+      .catch(err => {
+        console.error('❌ Error loading share links:', err);
+      });
+  }, [currentView]);
+
+  // Drop a stored model preference the server no longer offers
+  useEffect(() => {
+    if (availableModels.length > 0 && !availableModels.some(model => model.key === selectedModel)) {
+      const fallback = availableModels.find(model => model.isDefault) || availableModels[0];
+      setSelectedModel(fallback.key);
+    }
+  }, [availableModels, selectedModel]);
+
   // Save selected model preference to localStorage
   useEffect(() => {
     console.log('🔧 Saving selected model to localStorage:', selectedModel);
     localStorage.setItem('prism-selected-model', JSON.stringify(selectedModel));
   }, [selectedModel]);
 
-  // Debounced localStorage saves to prevent excessive writes
+  // Debounced server sync: send only the projects (and fields) that changed since the last sync
   useEffect(() => {
+    if (!projectsLoaded) return;
+
     const timeoutId = setTimeout(() => {
-      console.log('🔧 Saving designs to localStorage:', savedDesigns);
-      localStorage.setItem('prism-saved-designs', JSON.stringify(savedDesigns));
+      const synced = syncedProjectsRef.current;
+
+      savedDesigns.forEach(design => {
+        const previous = synced.get(design.id);
+        if (previous === design) return;
+
+        // Style edits and their history are saved by the edit store, which has the current ones - never send a stale copy
+        const save = previous
+          ? updateProject(design.id, changedProjectFields(previous, { ...design, edits: previous.edits, editHistory: previous.editHistory }))
+          : saveProject({ ...design, edits: getEdits(design), editHistory: getEditHistory(design) });
+        console.log(previous ? '🔧 Updating project on the server:' : '🔧 Creating project on the server:', design.id);
+        synced.set(design.id, design);
+        save.catch(error => {
+          console.error('❌ Failed to save project:', design.id, error);
+          // Forget the snapshot so the next sync retries the whole project
+          synced.delete(design.id);
+        });
+      });
+
+      [...synced.keys()]
+        .filter(id => !savedDesigns.some(design => design.id === id))
+        .forEach(id => {
+          console.log('🔧 Deleting project on the server:', id);
+          synced.delete(id);
+          deleteProject(id).catch(error => {
+            console.error('❌ Failed to delete project:', id, error);
+          });
+        });
     }, 2000); // Debounce by 2 seconds
 
     return () => clearTimeout(timeoutId);
-  }, [savedDesigns]);
+  }, [savedDesigns, projectsLoaded]);
 
   useEffect(() => {
     const timeoutId = setTimeout(() => {
@@ -3380,116 +2951,6 @@ Let's build something amazing together! 🚀`;
     return '';
   };
 
-  // 🎯 PREMIUM: Simulate live progress updates during generation
-  const simulateLiveProgress = (prompt: string) => {
-    const lowerPrompt = prompt.toLowerCase();
-    let progressSteps: string[] = [];
-    let chatMilestones: string[] = [];
-    
-    // Generate contextual progress steps based on prompt
-    if (lowerPrompt.includes('landing page') || lowerPrompt.includes('landing')) {
-      progressSteps = [
-        '🎨 Designing hero section layout...',
-        '📝 Crafting compelling headlines...',
-        '🎯 Building call-to-action elements...',
-        '📋 Structuring features section...',
-        '💫 Adding animations and interactions...',
-        '📱 Optimizing for mobile responsiveness...',
-        '✨ Applying final polish and styling...'
-      ];
-      chatMilestones = [
-        '✓ **Page Structure** - Foundation complete',
-        '✓ **Hero Section** - Compelling design ready', 
-        '✓ **Features & CTA** - Conversion elements added',
-        '✓ **Responsive Design** - Mobile optimization complete'
-      ];
-    } else if (lowerPrompt.includes('portfolio') || lowerPrompt.includes('showcase')) {
-      progressSteps = [
-        '🎨 Creating portfolio layout...',
-        '🖼️ Designing project showcase grid...',
-        '📝 Building about section...',
-        '🛠️ Adding skills visualization...',
-        '💫 Implementing smooth transitions...',
-        '📱 Ensuring mobile optimization...',
-        '✨ Final touches and refinements...'
-      ];
-      chatMilestones = [
-        '✓ **Portfolio Structure** - Layout foundation set',
-        '✓ **Project Showcase** - Gallery design complete',
-        '✓ **Skills & About** - Personal sections added',
-        '✓ **Polish & Mobile** - Final optimizations done'
-      ];
-    } else if (lowerPrompt.includes('restaurant') || lowerPrompt.includes('cafe') || lowerPrompt.includes('food')) {
-      progressSteps = [
-        '🍽️ Designing appetizing hero section...',
-        '📋 Creating menu layout...',
-        '📍 Adding location information...',
-        '📞 Building reservation system...',
-        '💫 Adding mouth-watering animations...',
-        '📱 Mobile-first optimization...',
-        '✨ Final culinary touches...'
-      ];
-      chatMilestones = [
-        '✓ **Restaurant Layout** - Visual foundation ready',
-        '✓ **Menu System** - Food showcase complete',
-        '✓ **Location & Contact** - Business info added',
-        '✓ **Mobile & Polish** - Customer experience optimized'
-      ];
-    } else if (lowerPrompt.includes('ecommerce') || lowerPrompt.includes('store') || lowerPrompt.includes('shop')) {
-      progressSteps = [
-        '🏪 Building storefront layout...',
-        '🛍️ Creating product showcase...',
-        '🛒 Implementing shopping features...',
-        '💳 Designing checkout flow...',
-        '💫 Adding shopping animations...',
-        '📱 Mobile commerce optimization...',
-        '✨ E-commerce final polish...'
-      ];
-      chatMilestones = [
-        '✓ **Store Foundation** - E-commerce structure ready',
-        '✓ **Product Display** - Shopping showcase complete',
-        '✓ **Cart & Checkout** - Purchase flow added',
-        '✓ **Mobile Commerce** - Shopping experience optimized'
-      ];
-    } else {
-      // Generic progress
-      progressSteps = [
-        '🎨 Analyzing design requirements...',
-        '🏗️ Building page structure...',
-        '📝 Generating content sections...',
-        '🎯 Adding interactive elements...',
-        '💫 Implementing animations...',
-        '📱 Responsive optimization...',
-        '✨ Final styling and polish...'
-      ];
-      chatMilestones = [
-        '✓ **Structure** - Page foundation complete',
-        '✓ **Content** - Core sections ready',
-        '✓ **Interactions** - Dynamic elements added',
-        '✓ **Responsive** - Multi-device optimization done'
-      ];
-    }
-    
-    // 🎯 PREMIUM: Show detailed steps in preview panel (ephemeral)
-    progressSteps.forEach((step, index) => {
-      setTimeout(() => {
-        setCurrentStep(step);
-      }, 1500 + (index * 1200));
-    });
-    
-    // 🎯 PREMIUM: Show only major milestones in chat (permanent)
-    chatMilestones.forEach((milestone, index) => {
-      setTimeout(() => {
-        addChatMessage('assistant', milestone);
-      }, 2000 + (index * 2100)); // Slower, more spaced out milestones
-    });
-    
-    // Clear current step when done
-    setTimeout(() => {
-      setCurrentStep('');
-    }, 1500 + (progressSteps.length * 1200) + 1000);
-  };
-
   // 🎯 PREMIUM: Generate contextual completion message
   const generateCompletionMessage = (prompt: string): string => {
     const lowerPrompt = prompt.toLowerCase();
@@ -3548,7 +3009,8 @@ What would you like to adjust or explore next?`;
 
     console.log('🔧 Saving current design:', { generatedResult, editedCode });
     
-    const codeToSave = editedCode || generatedResult.code;
+    // The copy starts without pending edits, so they are baked into its code
+    const codeToSave = finalProjectHtml();
     const thumbnail = await generateThumbnail(codeToSave);
 
     const design: SavedDesign = {
@@ -3592,8 +3054,8 @@ What would you like to adjust or explore next?`;
   // Debug function to clear localStorage
   const clearLocalStorage = () => {
     console.log('🔧 Clearing localStorage for debugging');
+    // Projects are stored on the server and are not affected
     localStorage.clear();
-    setSavedDesigns([]);
     setChatMessages([]);
     setCurrentView('landing');
     setCurrentProject(null);
@@ -3603,29 +3065,6 @@ What would you like to adjust or explore next?`;
     addChatMessage('assistant', 'Local storage cleared for debugging');
   };
 
-  // Function to clean up corrupted localStorage data
-  const cleanupLocalStorage = () => {
-    try {
-      // Check and clean saved designs
-      const saved = localStorage.getItem('prism-saved-designs');
-      if (saved) {
-        const designs = JSON.parse(saved);
-        if (Array.isArray(designs)) {
-          // Filter out invalid designs
-          const validDesigns = designs.filter(design => 
-            design && design.id && design.prompt && design.code && design.timestamp
-          );
-          if (validDesigns.length !== designs.length) {
-            console.log('Cleaned up corrupted designs:', designs.length - validDesigns.length);
-            localStorage.setItem('prism-saved-designs', JSON.stringify(validDesigns));
-          }
-        }
-      }
-    } catch (err) {
-      console.error('Error cleaning up localStorage:', err);
-    }
-  };
-
   // STEP 1: Starting with clean, simple functions
   
   // STEP 1: Simple element selector function (defined first)
@@ -3655,25 +3094,42 @@ What would you like to adjust or explore next?`;
     loadSavedDesign(design);
   };
 
-  const handleBackToDashboard = useCallback(() => {
-    console.log('🎯 Saving edits before leaving project');
-    if (currentProject && currentProjectEditsRef.current.length > 0) {
-      saveProjectWithEdits(currentProject.id, currentProjectEditsRef.current);
+  // Start tracking a new model request; any previous one is cancelled
+  const beginGenerationRequest = () => {
+    cancelGeneration();
+    const controller = new AbortController();
+    generationAbortRef.current = controller;
+    return controller.signal;
+  };
+
+  const endGenerationRequest = (signal: AbortSignal) => {
+    if (generationAbortRef.current?.signal === signal) {
+      generationAbortRef.current = null;
     }
-    
-    // Reset applied project ID so edits will be reapplied when we return
-    appliedProjectId.current = null;
-    
-    setCurrentProject(null);
-    setCurrentView('landing');
-  }, [currentProject, saveProjectWithEdits]);
+  };
 
-  const goToLanding = () => {
-    // Save any pending edits before leaving
-    if (currentProject && currentProjectEditsRef.current.length > 0) {
-      console.log('🎯 Saving edits before leaving project');
-      saveProjectWithEdits(currentProject.id, currentProjectEditsRef.current);
+  // Closing the connection makes the server cancel the model call and bill only the partial output.
+  // Generation jobs are not tied to the connection, so they are cancelled explicitly.
+  const cancelGeneration = () => {
+    if (activeJobIdRef.current) {
+      cancelGenerationJob(activeJobIdRef.current).catch(err => {
+        console.error('❌ [Prism] Failed to cancel the generation job:', err);
+      });
+      activeJobIdRef.current = null;
+    }
+    if (generationAbortRef.current) {
+      console.log('⏹️ [Prism] Cancelling the in-flight generation');
+      generationAbortRef.current.abort();
+      generationAbortRef.current = null;
     }
+  };
+
+  const goToLanding = () => {
+    // Don't keep paying for a generation nobody is waiting for
+    cancelGeneration();
+    
+    // Save any pending edits as a revision before leaving
+    commitStyleEdits();
     
     // Reset applied project ID so edits will be reapplied when we return
     appliedProjectId.current = null;
@@ -3690,96 +3146,84 @@ What would you like to adjust or explore next?`;
     }, 100);
   };
 
-  // Generate two design variants in parallel
-  const generateVariants = async (submittedPrompt: string) => {
-    console.log('🎨 [Variants] Generating two design variations...');
+  // Generate several design variants server-side, one per style direction
+  const generateVariants = async (submittedPrompt: string, request: VariantRequest) => {
+    console.log(`🎨 [Variants] Generating ${request.count} design variations...`, request.directions);
     setGeneratingVariants(true);
     setShowVariantSelector(false);
-    setVariantA(null);
-    setVariantB(null);
+    setMixingVariants(false);
+    setVariants([]);
+    setRequestedVariantCount(request.count);
     
-    // Create two different prompts for variety
     const basePrompt = enhancePromptWithPremiumDesignV3(submittedPrompt.trim());
     
-    const variantAPrompt = basePrompt + `\n\n**DESIGN VARIATION A - Bold & Vibrant**:
-    - Use bold, saturated colors (blues, purples, vibrant gradients)
-    - Modern, geometric card shapes with strong shadows
-    - High contrast elements
-    - Energetic, dynamic feel`;
-    
-    const variantBPrompt = basePrompt + `\n\n**DESIGN VARIATION B - Minimal & Elegant**:
-    - Use subtle, muted colors (grays, soft pastels, gentle gradients)
-    - Clean, minimal card shapes with soft shadows
-    - Refined spacing and typography
-    - Calm, sophisticated feel`;
+    // All variants are billed to the project the chosen one becomes
+    const projectId = generateId();
+    const signal = beginGenerationRequest();
     
     try {
-      // Send both requests in parallel
-      const [responseA, responseB] = await Promise.all([
-        fetch('http://localhost:3001/api/generate', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ 
-            prompt: variantAPrompt,
-            model: selectedModel,
-            metadata: { designSystem: 'premium', variant: 'A' }
-          }),
-        }),
-        fetch('http://localhost:3001/api/generate', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ 
-            prompt: variantBPrompt,
-            model: selectedModel,
-            metadata: { designSystem: 'premium', variant: 'B' }
-          }),
-        })
-      ]);
+      const data = await generateVariantDesigns({
+        prompt: basePrompt,
+        model: selectedModel,
+        count: request.count,
+        directions: request.directions,
+        projectId,
+      }, signal);
       
-      const [dataA, dataB] = await Promise.all([
-        responseA.json(),
-        responseB.json()
-      ]);
+      const timestamp = Date.now();
+      const generated: VariantOption[] = [];
+      data.variants.forEach(variant => {
+        if (variant.success) {
+          generated.push({ code: variant.code, prompt: submittedPrompt.trim(), timestamp, id: projectId, direction: variant.direction });
+        } else {
+          console.warn(`⚠️ [Variants] "${variant.direction.label}" failed:`, variant.error);
+        }
+      });
       
-      if (dataA.success && dataB.success) {
-        setVariantA({
-          code: dataA.code,
-          prompt: submittedPrompt.trim(),
-          timestamp: Date.now(),
-          id: generateId()
-        });
-        
-        setVariantB({
-          code: dataB.code,
-          prompt: submittedPrompt.trim(),
-          timestamp: Date.now(),
-          id: generateId()
-        });
-        
-        setShowVariantSelector(true);
-        console.log('✅ [Variants] Both variants generated successfully');
-      } else {
-        throw new Error('Variant generation failed');
-      }
+      setVariants(generated);
+      setShowVariantSelector(true);
+      console.log(`✅ [Variants] ${generated.length} of ${request.count} variants generated (~$${data.usage.estimatedCost.toFixed(4)})`);
     } catch (err) {
+      if (isAbortError(err)) {
+        console.log('⏹️ [Variants] Variant generation cancelled');
+        return;
+      }
       console.error('❌ [Variants] Error generating variants:', err);
       // Fall back to regular single generation
       handleSubmit(submittedPrompt);
     } finally {
+      endGenerationRequest(signal);
       setGeneratingVariants(false);
     }
   };
 
   // Handle variant selection
-  const handleVariantSelect = async (variant: 'A' | 'B') => {
-    console.log(`🎨 [Variants] User selected Variant ${variant}`);
-    const selectedVariant = variant === 'A' ? variantA : variantB;
-    
+  const handleVariantSelect = (index: number) => adoptVariant(variants, index);
+
+  // Use a page assembled from sections of several variants; it is kept as an extra alternate
+  const handleMixSelect = (code: string, description: string) => {
+    const base = variants[0];
+    if (!base) return;
+    const mix: VariantOption = {
+      ...base,
+      code,
+      timestamp: Date.now(),
+      direction: { key: null, label: 'Mixed', description, custom: true },
+    };
+    adoptVariant([...variants, mix], variants.length);
+  };
+
+  // Open `options[index]` as the new project, with every option stored as an alternate
+  const adoptVariant = async (options: VariantOption[], index: number) => {
+    const selectedVariant = options[index];
     if (!selectedVariant) return;
+    console.log(`🎨 [Variants] User selected "${selectedVariant.direction.label}"`);
     
+    const { direction, ...result } = selectedVariant;
     setShowVariantSelector(false);
-    setGeneratedResult(selectedVariant);
-    setEditedCode(selectedVariant.code);
+    setMixingVariants(false);
+    setGeneratedResult(result);
+    setEditedCode(result.code);
     
     // Set view transition state first
     setViewTransition(true);
@@ -3789,30 +3233,135 @@ What would you like to adjust or explore next?`;
     }, 100);
     
     // Add to chat
-    addChatMessage('user', selectedVariant.prompt);
-    addChatMessage('assistant', `✅ You selected **Variant ${variant}** - ${variant === 'A' ? 'Bold & Vibrant' : 'Minimal & Elegant'} design!`);
+    addChatMessage('user', result.prompt);
+    addChatMessage('assistant', `✅ You selected the **${direction.label}** design!`);
     
-    // Auto-save the selected design
-    const thumbnail = await generateThumbnail(selectedVariant.code);
+    // Auto-save the selected design, with every variant of the run kept as an alternate
+    const alternates: ProjectAlternate[] = options.map(variant => ({
+      id: generateId(),
+      code: variant.code,
+      direction: variant.direction,
+      timestamp: variant.timestamp,
+    }));
+    const thumbnail = await generateThumbnail(result.code);
     const savedDesign: SavedDesign = {
-      id: selectedVariant.id,
-      prompt: selectedVariant.prompt,
-      code: selectedVariant.code,
-      timestamp: selectedVariant.timestamp,
+      id: result.id,
+      prompt: result.prompt,
+      code: result.code,
+      timestamp: result.timestamp,
       thumbnail: thumbnail,
       edits: [],
+      alternates,
+      activeAlternateId: alternates[index].id,
     };
     
     setSavedDesigns(prev => [savedDesign, ...prev]);
-    addChatMessage('assistant', `Design automatically saved: "${selectedVariant.prompt}"`);
+    addChatMessage('assistant', `Design automatically saved: "${result.prompt}"`);
+    if (alternates.length > 1) {
+      addChatMessage('assistant', `The other ${alternates.length - 1} variations are kept with the project - use **Alternates** to compare them again.`);
+    }
+  };
+
+  // Reopen the variant comparison for a project's alternates
+  const openAlternates = (projectId: string) => {
+    console.log('🎨 [Alternates] Comparing alternates of project:', projectId);
+    setComparingProjectId(projectId);
+  };
+
+  // Make another alternate the project's design. The user's work on the current design
+  // (refinements and style edits) is kept on its alternate, so switching back restores it.
+  const switchToAlternate = async (projectId: string, alternateId: string) => {
+    const project = savedDesigns.find(d => d.id === projectId);
+    const alternate = project?.alternates?.find(a => a.id === alternateId);
+    if (!project || !alternate || project.activeAlternateId === alternateId) return;
+    console.log(`🎨 [Alternates] Switching project ${projectId} to "${alternate.direction.label}"`);
+
+    const isOpen = generatedResult?.id === projectId;
+    const currentCode = renderFinalHtml(
+      isOpen ? editedCode || project.code : project.code,
+      getEdits(project)
+    );
+    resetProjectEdits(projectId);
+
+    const timestamp = Date.now();
+    const revisions = appendRevision(project, {
+      code: alternate.code,
+      instruction: `Switched to the ${alternate.direction.label} alternate`,
+      source: 'alternate',
+      timestamp,
+    });
+    const thumbnail = await generateThumbnail(alternate.code);
+    const updatedDesign: SavedDesign = {
+      ...project,
+      code: alternate.code,
+      timestamp,
+      thumbnail,
+      edits: [],
+      revisions,
+      alternates: project.alternates?.map(a => a.id === project.activeAlternateId ? { ...a, code: currentCode } : a),
+      activeAlternateId: alternateId,
+    };
+
+    setSavedDesigns(prev => prev.map(d => d.id === projectId ? updatedDesign : d));
+    if (currentProject?.id === projectId) {
+      setCurrentProject(updatedDesign);
+    }
+    if (isOpen) {
+      setGeneratedResult({ ...generatedResult, code: alternate.code, timestamp });
+      setEditedCode(alternate.code);
+    }
+    setComparingProjectId(null);
+    addChatMessage('assistant', `🔀 Switched to the **${alternate.direction.label}** alternate`, projectId);
   };
 
-  const handleSubmit = async (submittedPrompt: string, useVariants: boolean = false) => {
-    if (!submittedPrompt.trim()) return;
+  // Move an alternate out of a project into a project of its own
+  const promoteAlternate = async (projectId: string, alternateId: string) => {
+    const project = savedDesigns.find(d => d.id === projectId);
+    const alternate = project?.alternates?.find(a => a.id === alternateId);
+    if (!project || !alternate || project.activeAlternateId === alternateId) return;
+    console.log(`🎨 [Alternates] Promoting "${alternate.direction.label}" to its own project`);
+
+    const timestamp = Date.now();
+    const prompt = `${project.prompt} (${alternate.direction.label})`;
+    const thumbnail = await generateThumbnail(alternate.code);
+    const promoted: SavedDesign = {
+      id: generateId(),
+      prompt,
+      code: alternate.code,
+      timestamp,
+      thumbnail,
+      edits: [],
+      revisions: [{
+        id: generateId(),
+        code: alternate.code,
+        instruction: prompt,
+        source: 'generate',
+        timestamp,
+      }],
+    };
+    const remaining = (project.alternates || []).filter(a => a.id !== alternateId);
+    const updatedDesign: SavedDesign = { ...project, alternates: remaining };
+
+    setSavedDesigns(prev => [promoted, ...prev.map(d => d.id === projectId ? updatedDesign : d)]);
+    if (currentProject?.id === projectId) {
+      setCurrentProject(updatedDesign);
+    }
+    if (remaining.length < 2) {
+      setComparingProjectId(null);
+    }
+    addChatMessage('assistant', `📁 Saved the **${alternate.direction.label}** alternate as a new project: "${prompt}"`, projectId);
+  };
+
+  // `images` are reference images (screenshots, wireframes) - the prompt may be empty when there are some
+  const handleSubmit = async (submittedPrompt: string, variantRequest?: VariantRequest, images: PromptImage[] = []) => {
+    if (!submittedPrompt.trim() && images.length === 0) return;
+    if (!submittedPrompt.trim()) {
+      submittedPrompt = IMAGE_ONLY_PROMPT;
+    }
     
     // Check if user chose to generate variants
-    if (useVariants) {
-      await generateVariants(submittedPrompt);
+    if (variantRequest) {
+      await generateVariants(submittedPrompt, variantRequest);
       return;
     }
     
@@ -3834,6 +3383,7 @@ What would you like to adjust or explore next?`;
     setGeneratedResult(null);
     setEditedCode('');
     setCurrentStep(''); // Clear current step for fresh start
+    setPartialCode('');
     setGenerationKey(prev => prev + 1); // Force component remount
     
     // Set view transition state first
@@ -3846,39 +3396,123 @@ What would you like to adjust or explore next?`;
     }, 100);
     
     // Add user message to chat
-    addChatMessage('user', submittedPrompt.trim());
+    addChatMessage('user', images.length > 0
+      ? `${submittedPrompt.trim()}\n\n🖼️ ${images.map(image => image.name).join(', ')}`
+      : submittedPrompt.trim());
     
     // 🎯 PREMIUM: AI immediately responds with structured plan
     setTimeout(() => {
       const aiPlan = generateAIPlan(submittedPrompt.trim());
       addChatMessage('assistant', aiPlan);
-      
-      // 🎯 PREMIUM: Start live progress updates
-      simulateLiveProgress(submittedPrompt.trim());
     }, 500);
     
+    // The project id is chosen up front so the usage ledger can attribute the cost
+    const projectId = generateId();
+    const signal = beginGenerationRequest();
+    
+    let job;
     try {
-      console.log('🚀 [Prism] Sending request to Claude API...');
-      const response = await fetch('http://localhost:3001/api/generate', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ 
-          prompt: enhancedPrompt, // Use the enhanced prompt with design constraints
-          model: selectedModel,
-          metadata: {
-            designSystem: 'premium',
-            timestamp: new Date().toISOString()
-          }
-        }),
-      });
+      console.log('🚀 [Prism] Starting generation job...');
+      job = await createGenerationJob({ 
+        prompt: enhancedPrompt, // Use the enhanced prompt with design constraints
+        model: selectedModel,
+        projectId,
+        images: images.map(toImagePayload),
+        metadata: {
+          designSystem: 'premium',
+          timestamp: new Date().toISOString()
+        }
+      }, signal);
+    } catch (err) {
+      endGenerationRequest(signal);
+      failGeneration(err);
+      setIsLoading(false);
+      return;
+    }
 
-      const data = await response.json();
-      
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to generate interface');
-      }
+    // The job keeps running on the server if this page reloads - remember it so we can resume
+    rememberActiveJob({ jobId: job.id, projectId, prompt: submittedPrompt.trim() });
+    activeJobIdRef.current = job.id;
+    await followGeneration(job.id, projectId, signal);
+  };
+
+  const failGeneration = (err: unknown) => {
+    if (isAbortError(err) || err instanceof GenerationCancelledError) {
+      console.log('⏹️ [Prism] Generation cancelled');
+      setIsGenerating(false);
+      setCurrentStep('');
+      setPartialCode('');
+      return;
+    }
+    const errorMessage = err instanceof Error ? err.message : 'An unexpected error occurred';
+    setError(errorMessage);
+    setIsGenerating(false);
+    setCurrentStep(''); // Clear current step on error
+    setPartialCode('');
+    addChatMessage('assistant', `❌ **Error**: ${errorMessage}`);
+    console.error('Error:', err);
+  };
+
+  // Pick up the generation job that was running when the page was reloaded
+  const resumeGeneration = async ({ jobId, projectId, prompt: submittedPrompt }: ActiveGenerationJob) => {
+    let job;
+    try {
+      job = await fetchGenerationJob(jobId);
+    } catch (err) {
+      console.warn('🧵 [Prism] Could not resume the generation job:', err);
+      forgetActiveJob(jobId);
+      return;
+    }
+    if (job.status === 'cancelled') {
+      forgetActiveJob(jobId);
+      return;
+    }
+
+    console.log(`🧵 [Prism] Resuming generation job ${jobId} (${job.status})`);
+    setPrompt(submittedPrompt);
+    setIsLoading(true);
+    setIsGenerating(true);
+    setError(null);
+    setGeneratedResult(null);
+    setEditedCode('');
+    setCurrentStep('🔄 Reconnecting to your generation...');
+    setPartialCode(job.partialCode);
+    setCurrentView('editor-workspace');
+
+    const signal = beginGenerationRequest();
+    activeJobIdRef.current = jobId;
+    await followGeneration(jobId, projectId, signal);
+  };
+  // Updated on every render, so the mount-time load resumes with the current state and handlers
+  resumeGenerationRef.current = resumeGeneration;
+
+  // Show a generation job's progress in the workspace and save its result.
+  // Also picks up a job that was started before the page was reloaded.
+  const followGeneration = async (jobId: string, projectId: string, signal: AbortSignal) => {
+    try {
+      let announcedSections = 0;
+      const data = await followGenerationJob(jobId, {
+        // 🎯 Real progress from the token stream
+        onProgress: ({ estimatedTokens, sections }) => {
+          const latestSection = sections[sections.length - 1];
+          setCurrentStep(latestSection
+            ? `✍️ Writing ${latestSection} (${sections.length} sections, ~${estimatedTokens.toLocaleString()} tokens)`
+            : `✍️ Writing styles and layout (~${estimatedTokens.toLocaleString()} tokens)`);
+          if (sections.length > announcedSections) {
+            sections.slice(announcedSections).forEach(section => {
+              addChatMessage('assistant', `✓ **${section}** - section started`);
+            });
+            announcedSections = sections.length;
+          }
+        },
+        onHtml: setPartialCode,
+        onContinuation: (continuations) => {
+          setCurrentStep(`🔁 Page was cut off - continuing where it stopped (part ${continuations + 1})`);
+        },
+        onUsage: (usage) => {
+          console.log('📊 [Prism] Generation usage:', usage);
+        }
+      }, signal);
 
       if (data.success) {
         console.log('🔧 Generation successful, received data:', data);
@@ -3886,16 +3520,25 @@ What would you like to adjust or explore next?`;
           code: data.code,
           prompt: data.prompt,
           timestamp: Date.now(),
-          id: generateId()
+          id: projectId
         };
         console.log('🔧 Setting generatedResult:', result);
         setGeneratedResult(result);
         setEditedCode(data.code);
+        setPartialCode('');
         setIsGenerating(false);
         
         // 🎯 PREMIUM: Contextual completion message
         const completionMessage = generateCompletionMessage(data.prompt);
         addChatMessage('assistant', completionMessage, result.id);
+        if (data.fixes.length > 0) {
+          console.log('🩹 [Prism] Server repaired the generated HTML:', data.fixes);
+        }
+        if (data.continuations > 0) {
+          addChatMessage('assistant', data.truncated
+            ? `⚠️ The page was still unfinished after ${data.continuations} continuation requests - the end of the document may be missing content.`
+            : `🔁 The page was longer than one response, so it was completed in ${data.continuations + 1} parts.`);
+        }
         
         // Clear current step when generation is complete
         setCurrentStep('');
@@ -3909,36 +3552,239 @@ What would you like to adjust or explore next?`;
           timestamp: result.timestamp,
           thumbnail: thumbnail,
           edits: [], // Initialize with empty edits array
+          revisions: [{
+            id: generateId(),
+            code: result.code,
+            instruction: result.prompt,
+            source: 'generate',
+            timestamp: result.timestamp,
+          }],
         };
         
-        setSavedDesigns(prev => {
-          // Check if we already have this design (by prompt)
-          const existingIndex = prev.findIndex(d => d.prompt === result.prompt);
-          if (existingIndex >= 0) {
-            // Update existing design
-            const updated = [...prev];
-            updated[existingIndex] = autoSavedDesign;
-            return updated;
-          } else {
-            // Add new design
-            return [autoSavedDesign, ...prev];
-          }
-        });
+        // Every generation is a project of its own, even when the prompt was used before - only a
+        // resumed job that was already saved replaces its project
+        setSavedDesigns(prev => prev.some(d => d.id === result.id)
+          ? prev.map(d => d.id === result.id ? autoSavedDesign : d)
+          : [autoSavedDesign, ...prev]);
         
         addChatMessage('assistant', `Design automatically saved: "${data.prompt}"`, result.id);
       } else {
         throw new Error('Generation failed');
       }
     } catch (err) {
+      failGeneration(err);
+    } finally {
+      forgetActiveJob(jobId);
+      if (activeJobIdRef.current === jobId) {
+        activeJobIdRef.current = null;
+      }
+      endGenerationRequest(signal);
+      setIsLoading(false);
+      // setInputPrompt(''); // This is now handled by the LandingPage component
+    }
+  };
+
+  // Once edits are baked into new code, the project starts over with a clean edit list
+  const resetProjectEdits = (projectId: string) => {
+    clearEdits(savedDesigns.find(d => d.id === projectId) || { id: projectId });
+    appliedProjectId.current = null;
+  };
+
+  // Make `code` the project's design, with `revisions` (ending in the revision for it) as its history.
+  // Callers clear the pending style edits (resetProjectEdits) when they are baked into `code`.
+  const commitProjectCode = (project: SavedDesign, code: string, revisions: ProjectRevision[]) => {
+    const timestamp = revisions[revisions.length - 1].timestamp;
+    const updatedDesign: SavedDesign = { ...project, code, timestamp, revisions };
+
+    setSavedDesigns(prev => prev.some(d => d.id === project.id)
+      ? prev.map(d => d.id === project.id ? updatedDesign : d)
+      : [updatedDesign, ...prev]);
+    if (currentProject?.id === project.id) {
+      setCurrentProject(updatedDesign);
+    }
+    if (generatedResult?.id === project.id) {
+      setGeneratedResult({ ...generatedResult, code, timestamp });
+      setEditedCode(code);
+    }
+
+    // The thumbnail follows later; skip it if the design changed again meanwhile
+    generateThumbnail(code).then(thumbnail => {
+      setSavedDesigns(prev => prev.map(d => d.id === project.id && d.timestamp === timestamp ? { ...d, thumbnail } : d));
+    });
+    return updatedDesign;
+  };
+
+  const describeStyleEdits = (edits: StyleEdit[]) => {
+    const elements = new Set(edits.map(edit => edit.elementId || edit.selector)).size;
+    return `Styled ${elements} ${elements === 1 ? 'element' : 'elements'} (${edits.length} ${edits.length === 1 ? 'change' : 'changes'})`;
+  };
+
+  // Whether the pending style edits differ from what the latest revision shows
+  const hasUnsavedStyleEdits = (project: SavedDesign) => {
+    const latest = project.revisions?.[project.revisions.length - 1];
+    const saved = latest?.source === 'edits' ? latest.edits || [] : [];
+    return JSON.stringify(getEdits(project)) !== JSON.stringify(saved);
+  };
+
+  // The project's revisions plus one of `code` with the pending style edits baked in; null when the
+  // latest revision already shows them
+  const withStyleEditsRevision = (project: SavedDesign, code: string): ProjectRevision[] | null => {
+    if (!hasUnsavedStyleEdits(project)) return null;
+    const edits = getEdits(project);
+    return appendRevision(project, {
+      code: renderFinalHtml(code, edits),
+      instruction: edits.length > 0 ? describeStyleEdits(edits) : 'Removed the style edits',
+      source: 'edits',
+      edits,
+    });
+  };
+
+  // Save the open project's style edits as a revision when they changed since the last one. They
+  // stay pending on top of the unchanged code so they can still be undone; refinements, restores
+  // and alternate switches bake them in for good.
+  const commitStyleEdits = () => {
+    const projectId = currentProject?.id || generatedResult?.id;
+    const project = savedDesigns.find(d => d.id === projectId);
+    if (!project) return;
+    const revisions = withStyleEditsRevision(project, editedCode || project.code);
+    if (!revisions) return;
+
+    const latest = revisions[revisions.length - 1];
+    const updatedDesign: SavedDesign = { ...project, timestamp: latest.timestamp, revisions };
+    setSavedDesigns(prev => prev.map(d => d.id === project.id ? updatedDesign : d));
+    if (currentProject?.id === project.id) {
+      setCurrentProject(updatedDesign);
+    }
+    generateThumbnail(latest.code).then(thumbnail => {
+      setSavedDesigns(prev => prev.map(d => d.id === project.id && d.timestamp === latest.timestamp ? { ...d, thumbnail } : d));
+    });
+    console.log('🎨 [History] Saved style edits as a revision:', project.id, latest.edits?.length);
+  };
+
+  // Save a change made in the code view as a revision; pending style edits stay pending
+  const commitCodeEdit = (code: string) => {
+    const projectId = currentProject?.id || generatedResult?.id;
+    const project = savedDesigns.find(d => d.id === projectId);
+    if (!project || code === project.code) return;
+    commitProjectCode(project, code, appendRevision(project, {
+      code,
+      instruction: 'Edited the code',
+      source: 'code',
+    }));
+    addChatMessage('assistant', `⌨️ Saved your code changes (revision ${(project.revisions?.length || 1) + 1})`, project.id);
+  };
+
+  // Make an earlier revision the current design again. Nothing is lost: the restore is a new
+  // revision, and unsaved style edits are saved as a revision first.
+  const restoreRevision = (projectId: string, revisionId: string) => {
+    const project = savedDesigns.find(d => d.id === projectId);
+    const index = project?.revisions?.findIndex(r => r.id === revisionId) ?? -1;
+    if (!project?.revisions || index < 0) return;
+    const revision = project.revisions[index];
+
+    const isOpen = generatedResult?.id === projectId;
+    const editsRevisions = withStyleEditsRevision(project, isOpen ? editedCode || project.code : project.code);
+    const base = editsRevisions ? { ...project, revisions: editsRevisions } : project;
+    resetProjectEdits(projectId);
+
+    commitProjectCode({ ...base, edits: [] }, revision.code, appendRevision(base, {
+      code: revision.code,
+      instruction: `Restored revision #${index + 1}${revision.label ? ` "${revision.label}"` : ''}`,
+      source: 'restore',
+    }));
+    setIsHistoryOpen(false);
+    addChatMessage('assistant', `↩️ Restored revision #${index + 1} - the versions after it are still in the history`, projectId);
+  };
+
+  const discardEdits = (project: SavedDesign, edits: StyleEdit[]) => {
+    removeEdits(project, edits);
+    addChatMessage('assistant', `🧹 Discarded ${edits.length} style ${edits.length === 1 ? 'edit' : 'edits'} whose element is no longer in the design`, project.id);
+  };
+
+  const labelRevision = (projectId: string, revisionId: string, label: string) => {
+    setSavedDesigns(prev => prev.map(d => d.id === projectId
+      ? { ...d, revisions: d.revisions?.map(r => r.id === revisionId ? { ...r, label: label || undefined } : r) }
+      : d));
+  };
+
+  // 🎯 Chat refinement: apply a follow-up instruction to the current design
+  const handleRefine = async (instruction: string) => {
+    if (!instruction.trim() || !generatedResult || isLoading) return;
+
+    const projectId = currentProject?.id || generatedResult.id;
+    const savedDesign = savedDesigns.find(d => d.id === projectId) || currentProject;
+
+    // Bake the saved style edits in so the model sees what the user sees
+    const edits = getEdits(savedDesign || { id: projectId });
+    const currentCode = renderFinalHtml(editedCode || generatedResult.code, edits);
+
+    addChatMessage('user', instruction.trim());
+    setIsLoading(true);
+    setIsGenerating(true);
+    setError(null);
+    const signal = beginGenerationRequest();
+
+    try {
+      console.log('🪄 [Prism] Refining design:', { projectId, instruction, edits: edits.length });
+      const data = await refineDesign({
+        html: currentCode,
+        instruction: instruction.trim(),
+        model: selectedModel,
+        projectId,
+      }, signal);
+      console.log('📊 [Prism] Refinement usage:', data.usage, 'continuations:', data.continuations, 'fixes:', data.fixes);
+
+      const timestamp = Date.now();
+
+      // Edits are baked into the refined code
+      resetProjectEdits(projectId);
+
+      setGeneratedResult({ ...generatedResult, code: data.code, timestamp });
+      setEditedCode(data.code);
+
+      const thumbnail = await generateThumbnail(data.code);
+      const baseDesign: SavedDesign = savedDesign || {
+        id: projectId,
+        prompt: generatedResult.prompt,
+        code: generatedResult.code,
+        timestamp: generatedResult.timestamp,
+      };
+      const revisions = appendRevision(baseDesign, {
+        code: data.code,
+        instruction: instruction.trim(),
+        source: 'refine',
+        timestamp,
+      });
+      const updatedDesign: SavedDesign = {
+        ...baseDesign,
+        code: data.code,
+        timestamp,
+        thumbnail,
+        edits: [],
+        revisions,
+      };
+
+      setSavedDesigns(prev => prev.some(d => d.id === projectId)
+        ? prev.map(d => d.id === projectId ? updatedDesign : d)
+        : [updatedDesign, ...prev]);
+      if (currentProject) {
+        setCurrentProject(updatedDesign);
+      }
+
+      addChatMessage('assistant', `✨ Updated the design: "${instruction.trim()}" (revision ${revisions.length})`, projectId);
+    } catch (err) {
+      if (isAbortError(err)) {
+        console.log('⏹️ [Prism] Refinement cancelled');
+        return;
+      }
       const errorMessage = err instanceof Error ? err.message : 'An unexpected error occurred';
       setError(errorMessage);
-      setIsGenerating(false);
-      setCurrentStep(''); // Clear current step on error
       addChatMessage('assistant', `❌ **Error**: ${errorMessage}`);
       console.error('Error:', err);
     } finally {
+      endGenerationRequest(signal);
+      setIsGenerating(false);
       setIsLoading(false);
-      // setInputPrompt(''); // This is now handled by the LandingPage component
     }
   };
 
@@ -3946,14 +3792,14 @@ What would you like to adjust or explore next?`;
     if (generatedResult) {
       const newWindow = window.open('', '_blank');
       if (newWindow) {
-        newWindow.document.write(editedCode || generatedResult.code);
+        newWindow.document.write(exportProjectHtml());
         newWindow.document.close();
       }
     }
   };
 
   const handleCopyCode = async () => {
-    const codeToCopy = editedCode || generatedResult?.code;
+    const codeToCopy = generatedResult ? exportProjectHtml() : '';
     if (codeToCopy) {
       try {
         await navigator.clipboard.writeText(codeToCopy);
@@ -3964,6 +3810,85 @@ What would you like to adjust or explore next?`;
     }
   };
 
+  // The open design as the user sees it: current code with the pending style edits baked in
+  const finalProjectHtml = (project?: SavedDesign) => {
+    const projectId = project?.id || currentProject?.id || generatedResult?.id;
+    const edits = projectId ? getEdits(project || savedDesigns.find(d => d.id === projectId) || { id: projectId }) : [];
+    return renderFinalHtml(editedCode || generatedResult?.code || project?.code || '', edits);
+  };
+
+  // The same for HTML that leaves Prism: downloads, new tabs, the clipboard, published sites, share links
+  const exportProjectHtml = (project?: SavedDesign) => stripElementIds(finalProjectHtml(project));
+
+  // The server sets the published marker; keep it in the sync snapshot too so it is not sent back
+  const applyPublishedMarker = (projectId: string, published: SavedDesign['published']) => {
+    const synced = syncedProjectsRef.current.get(projectId);
+    if (synced) {
+      syncedProjectsRef.current.set(projectId, { ...synced, published });
+    }
+    setSavedDesigns(prev => prev.map(d => d.id === projectId ? { ...d, published } : d));
+  };
+
+  const publishWorkspaceProject = async (project: SavedDesign, slug?: string) => {
+    setIsPublishing(true);
+    setPublishError(null);
+    try {
+      const saved = await publishProject(project.id, exportProjectHtml(project), slug);
+      applyPublishedMarker(project.id, saved.published);
+      console.log('🌐 [Prism] Published project:', project.id, saved.published);
+      if (saved.published) {
+        addChatMessage('assistant', `🌐 Published version ${saved.published.version} at ${publishedSiteUrl(saved.published)}`, project.id);
+      }
+    } catch (err) {
+      setPublishError(err instanceof Error ? err.message : 'Failed to publish');
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  const unpublishWorkspaceProject = async (project: SavedDesign) => {
+    setIsPublishing(true);
+    setPublishError(null);
+    try {
+      await unpublishProject(project.id);
+      applyPublishedMarker(project.id, null);
+      addChatMessage('assistant', '🌐 The published site was taken offline', project.id);
+    } catch (err) {
+      setPublishError(err instanceof Error ? err.message : 'Failed to unpublish');
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  const createWorkspaceShare = async (project: SavedDesign, options: ShareOptions) => {
+    setIsSharing(true);
+    setShareError(null);
+    try {
+      const share = await createShareLink(project.id, {
+        ...options,
+        html: options.revisionId ? undefined : exportProjectHtml(project),
+      });
+      setShareLinks(prev => [share, ...prev]);
+      setCreatedShareToken(share.token);
+      console.log('🔗 [Prism] Created share link:', project.id, share.path);
+    } catch (err) {
+      setShareError(err instanceof Error ? err.message : 'Failed to create the link');
+    } finally {
+      setIsSharing(false);
+    }
+  };
+
+  const revokeShare = async (token: string) => {
+    setShareError(null);
+    try {
+      await revokeShareLink(token);
+      setShareLinks(prev => prev.filter(share => share.token !== token));
+    } catch (err) {
+      console.error('❌ Failed to revoke share link:', token, err);
+      setShareError(err instanceof Error ? err.message : 'Failed to revoke the link');
+    }
+  };
+
   const handleDownloadCode = async () => {
     if (!generatedResult) {
       console.error('No generated result to download');
@@ -3974,7 +3899,7 @@ What would you like to adjust or explore next?`;
       console.log('🔧 Starting zip download for:', generatedResult.prompt);
       
       const zip = new JSZip();
-      const codeToDownload = editedCode || generatedResult.code;
+      const codeToDownload = exportProjectHtml();
       
       // Parse the HTML to extract CSS and JavaScript
       const parser = new DOMParser();
@@ -4154,30 +4079,9 @@ ${extractedJs}`;
     }
   };
 
-                // 🎯 SIMPLE: Base44-Style Generation (Static Container + Text Animation)
-  const StreamingBuilder = ({ currentStep }: { currentStep?: string }) => {
-    const [displayText, setDisplayText] = useState('Generating your website...');
-    
-    useEffect(() => {
-      // Simple text progression - only animate the text, not the container
-      const textSequence = [
-        'Generating your website...',
-        'Analyzing requirements...',
-        'Building components...',
-        'Adding interactions...',
-        'Optimizing design...',
-        'Final refinements...',
-        'Almost ready...'
-      ];
-      
-      let currentIndex = 0;
-      const interval = setInterval(() => {
-        currentIndex = (currentIndex + 1) % textSequence.length;
-        setDisplayText(textSequence[currentIndex]);
-      }, 2000); // Change text every 2 seconds
-
-      return () => clearInterval(interval);
-    }, []); // Empty dependency array to run only once
+  // 🎯 SIMPLE: Base44-Style Generation (Static Container + real progress from the stream)
+  const StreamingBuilder = ({ currentStep, onCancel }: { currentStep?: string; onCancel: () => void }) => {
+    const displayText = currentStep || 'Waiting for the model to start writing...';
 
     return (
       <div className="simple-generation-area">
@@ -4197,12 +4101,9 @@ ${extractedJs}`;
             <span className="progress-text">{displayText}</span>
           </div>
           
-          {/* Current step from preview panel (if available) */}
-          {currentStep && (
-            <div className="current-detailed-step">
-              <span className="step-detail">{currentStep}</span>
-            </div>
-          )}
+          <button type="button" className="cancel-generation-button" onClick={onCancel}>
+            Cancel generation
+          </button>
         </div>
       </div>
     );
@@ -4221,6 +4122,7 @@ ${extractedJs}`;
     chatMessages, 
     isGenerating, 
     currentStep, 
+    partialCode, 
     onCodeChange, 
     onSave, 
     currentViewport, 
@@ -4228,7 +4130,6 @@ ${extractedJs}`;
     refreshKey, 
     currentProject, 
     addStyleEdit, 
-    generateSelectorForElement, 
     appliedProjectId, 
     isPresetsPanelOpen, 
     setIsPresetsPanelOpen, 
@@ -4236,7 +4137,26 @@ ${extractedJs}`;
     handleViewportChange, 
     handleRefreshPreview, 
     isFullscreen, 
-    setIsFullscreen 
+    setIsFullscreen,
+    onCompareAlternates,
+    onGenerateFromImage,
+    isPublished,
+    isPublishPanelOpen,
+    setIsPublishPanelOpen,
+    publishPanel,
+    shareCount,
+    isSharePanelOpen,
+    setIsSharePanelOpen,
+    sharePanel,
+    revisionCount,
+    onOpenHistory,
+    onSaveCode,
+    pendingEdits,
+    unresolvedEdits,
+    onDiscardUnresolvedEdits,
+    editHistoryButtons,
+    scriptsPaused,
+    previewConsole
   }: { 
     generatedResult: GeneratedResult | null; 
     editedCode: string; 
@@ -4249,14 +4169,14 @@ ${extractedJs}`;
     chatMessages: ChatMessage[]; 
     isGenerating: boolean; 
     currentStep: string; 
+    partialCode: string; 
     onCodeChange: (code: string) => void; 
     onSave: () => void; 
     currentViewport: 'desktop' | 'tablet' | 'mobile'; 
     setCurrentViewport: (viewport: 'desktop' | 'tablet' | 'mobile') => void; 
     refreshKey: number; 
     currentProject: SavedDesign | null; 
-    addStyleEdit: (selector: string, property: string, value: string) => void; 
-    generateSelectorForElement: (element: HTMLElement) => string; 
+    addStyleEdit: (target: EditTarget, property: string, value: string) => void; 
     appliedProjectId: React.MutableRefObject<string | null>; 
     isPresetsPanelOpen: boolean; 
     setIsPresetsPanelOpen: (open: boolean) => void; 
@@ -4265,22 +4185,43 @@ ${extractedJs}`;
     handleRefreshPreview: () => void; 
     isFullscreen: boolean; 
     setIsFullscreen: (fullscreen: boolean) => void; 
+    onCompareAlternates?: () => void; // Only set when the project has alternates
+    onGenerateFromImage: (prompt: string, image: PromptImage) => void;
+    isPublished: boolean;
+    isPublishPanelOpen: boolean;
+    setIsPublishPanelOpen: (open: boolean) => void;
+    publishPanel: React.ReactNode; // Shown under the Publish button while open
+    shareCount: number; // Share links of the project that have not expired
+    isSharePanelOpen: boolean;
+    setIsSharePanelOpen: (open: boolean) => void;
+    sharePanel: React.ReactNode; // Shown under the Share button while open
+    revisionCount: number;
+    onOpenHistory: () => void;
+    onSaveCode: (code: string) => void; // Saves the code view's changes as a revision
+    pendingEdits: StyleEdit[]; // Style edits not yet baked into a revision
+    unresolvedEdits: StyleEdit[]; // Pending edits whose element is no longer in the design
+    onDiscardUnresolvedEdits: () => void;
+    editHistoryButtons: React.ReactNode; // Undo/redo of the visual edits
+    scriptsPaused: boolean; // Whether the edit-mode preview runs the page's scripts
+    previewConsole: React.ReactNode; // Console of the edit-mode preview, docked under it
   }) => {
     const [localInputPrompt, setLocalInputPrompt] = useState('');
     const [showInputMenu, setShowInputMenu] = useState(false);
-    const [uploadedImage, setUploadedImage] = useState<File | null>(null);
-    const [isRecording, setIsRecording] = useState(false);
+    const [uploadedImage, setUploadedImage] = useState<PromptImage | null>(null);
+    // Problems with the image or voice input, shown under the chat box
+    const [inputError, setInputError] = useState<string | null>(null);
+    const [recordingState, setRecordingState] = useState<'idle' | 'recording' | 'transcribing'>('idle');
+    const [recordingSeconds, setRecordingSeconds] = useState(0);
+    const mediaRecorderRef = useRef<MediaRecorder | null>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
 
     const handleLocalSubmit = (e: React.FormEvent) => {
       e.preventDefault();
       if (!localInputPrompt.trim() && !uploadedImage) return;
       
-      // Handle image upload with prompt
+      // A reference image starts a new page modelled on it, the text says what to change or add
       if (uploadedImage) {
-        // For now, just include the image name in the prompt
-        const imagePrompt = `${localInputPrompt.trim()} [Image: ${uploadedImage.name}]`;
-        onCodeChange(imagePrompt);
+        onGenerateFromImage(localInputPrompt.trim(), uploadedImage);
         setUploadedImage(null);
       } else {
         onCodeChange(localInputPrompt);
@@ -4308,62 +4249,112 @@ ${extractedJs}`;
       }
     };
 
-    const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
       const file = e.target.files?.[0];
-      if (file && file.type.startsWith('image/')) {
-        setUploadedImage(file);
-        setShowInputMenu(false);
+      e.target.value = ''; // Picking the same file again should still fire onChange
+      if (!file) return;
+      setShowInputMenu(false);
+      setInputError(null);
+      try {
+        setUploadedImage(await prepareImage(file));
+      } catch (err) {
+        setUploadedImage(null);
+        setInputError(err instanceof Error ? err.message : 'Could not use this image');
+      }
+    };
+
+    const stopRecording = () => {
+      if (mediaRecorderRef.current?.state === 'recording') {
+        mediaRecorderRef.current.stop();
+      }
+    };
+
+    // Release the microphone if the workspace goes away mid-recording
+    useEffect(() => () => {
+      const recorder = mediaRecorderRef.current;
+      if (recorder) {
+        recorder.onstop = null;
+        if (recorder.state === 'recording') recorder.stop();
+        recorder.stream.getTracks().forEach(track => track.stop());
+      }
+    }, []);
+
+    useEffect(() => {
+      if (recordingState !== 'recording') return;
+      const timer = setInterval(() => setRecordingSeconds(seconds => seconds + 1), 1000);
+      return () => clearInterval(timer);
+    }, [recordingState]);
+
+    useEffect(() => {
+      if (recordingSeconds >= MAX_RECORDING_SECONDS) stopRecording();
+    }, [recordingSeconds]);
+
+    const transcribe = async (recording: Blob) => {
+      setRecordingState('transcribing');
+      try {
+        const text = await transcribeRecording(recording);
+        if (text) {
+          // Into the prompt box for review - nothing is sent until the user submits
+          setLocalInputPrompt(prev => prev.trim() ? `${prev.trim()} ${text}` : text);
+        } else {
+          setInputError('No speech was recognized in the recording.');
+        }
+      } catch (err) {
+        setInputError(err instanceof Error ? err.message : 'Failed to transcribe the recording');
+      } finally {
+        setRecordingState('idle');
       }
     };
 
     const handleMicrophoneClick = async () => {
-      if (!navigator.mediaDevices || !navigator.mediaDevices.getUserMedia) {
-        alert('Speech recognition is not supported in this browser.');
+      if (recordingState === 'recording') {
+        stopRecording();
         return;
       }
 
+      if (!navigator.mediaDevices?.getUserMedia || typeof MediaRecorder === 'undefined') {
+        setInputError('Voice input is not supported in this browser.');
+        return;
+      }
+
+      setInputError(null);
+      setShowInputMenu(false);
+      let stream: MediaStream;
       try {
-        setIsRecording(true);
-        const stream = await navigator.mediaDevices.getUserMedia({ 
+        stream = await navigator.mediaDevices.getUserMedia({ 
           audio: {
             echoCancellation: true,
-            noiseSuppression: true,
-            sampleRate: 44100
+            noiseSuppression: true
           } 
         });
-        
-        const mediaRecorder = new MediaRecorder(stream);
-        const audioChunks: Blob[] = [];
-        
-        mediaRecorder.ondataavailable = (event) => {
-          audioChunks.push(event.data);
-        };
-        
-        mediaRecorder.onstop = async () => {
-          const audioBlob = new Blob(audioChunks, { type: 'audio/wav' });
-          // Here you would typically send the audio to a speech-to-text service
-          // For now, we'll just show a placeholder
-          setLocalInputPrompt('Voice input processed...');
-          setIsRecording(false);
-          
-          // Clean up the stream
-          stream.getTracks().forEach(track => track.stop());
-        };
-        
-        mediaRecorder.start();
-        
-        // Auto-stop after 30 seconds
-        setTimeout(() => {
-          if (mediaRecorder.state === 'recording') {
-            mediaRecorder.stop();
-          }
-        }, 30000);
-        
-        setShowInputMenu(false);
-      } catch (error) {
-        setIsRecording(false);
-        alert('Microphone access denied or not available.');
+      } catch {
+        setInputError('Microphone access denied or not available.');
+        return;
       }
+
+      const mediaRecorder = new MediaRecorder(stream);
+      const audioChunks: Blob[] = [];
+
+      mediaRecorder.ondataavailable = (event) => {
+        if (event.data.size > 0) audioChunks.push(event.data);
+      };
+
+      mediaRecorder.onstop = () => {
+        stream.getTracks().forEach(track => track.stop());
+        mediaRecorderRef.current = null;
+        // The recorder picks the container (webm in Chrome and Firefox, mp4 in Safari)
+        const recording = new Blob(audioChunks, { type: mediaRecorder.mimeType || 'audio/webm' });
+        if (recording.size === 0) {
+          setRecordingState('idle');
+          return;
+        }
+        transcribe(recording);
+      };
+
+      mediaRecorderRef.current = mediaRecorder;
+      setRecordingSeconds(0);
+      setRecordingState('recording');
+      mediaRecorder.start();
     };
 
     return (
@@ -4393,8 +4384,8 @@ ${extractedJs}`;
                 refreshKey={refreshKey}
                 currentProject={currentProject}
                 addStyleEdit={addStyleEdit}
-                generateSelectorForElement={generateSelectorForElement}
                 appliedProjectId={appliedProjectId}
+                edits={pendingEdits}
               />
             </div>
           </div>
@@ -4494,9 +4485,19 @@ ${extractedJs}`;
           </div>
           
           <div className="dashboard-navbar-right">
+            {editHistoryButtons}
             <button onClick={onToggleEditMode} className={`dashboard-edit-btn ${editMode ? 'active' : ''}`}>
               {editMode ? 'Preview' : 'Edit'}
             </button>
+            {unresolvedEdits.length > 0 && (
+              <button
+                onClick={onDiscardUnresolvedEdits}
+                className="dashboard-nav-btn unresolved-edits"
+                title={`These style edits no longer match an element of the design - click to discard them:\n${unresolvedEdits.map(edit => `${edit.property}: ${edit.value}`).join('\n')}`}
+              >
+                ⚠️ {unresolvedEdits.length} unmatched {unresolvedEdits.length === 1 ? 'edit' : 'edits'}
+              </button>
+            )}
             
             <button onClick={() => setCodeViewMode(!codeViewMode)} className={`dashboard-edit-btn ${codeViewMode ? 'active' : ''}`}>
               {codeViewMode ? 'Preview' : (
@@ -4515,11 +4516,38 @@ ${extractedJs}`;
             >
               ✨
             </button>
+            {onCompareAlternates && (
+              <button onClick={onCompareAlternates} className="dashboard-nav-btn" title="Compare the other designs from this project's variants run">
+                🔀 Alternates
+              </button>
+            )}
+            <button onClick={onOpenHistory} className="dashboard-nav-btn" disabled={!generatedResult} title="Preview and restore earlier versions">
+              🕘 History{revisionCount > 1 ? ` (${revisionCount})` : ''}
+            </button>
             <button onClick={handleDownloadCode} className="dashboard-nav-btn">
               📥 Download
             </button>
-            <button className="dashboard-nav-btn">Share</button>
-            <button className="dashboard-nav-btn primary">Publish</button>
+            <div className="publish-menu">
+              <button
+                className={`dashboard-nav-btn ${isSharePanelOpen ? 'active' : ''}`}
+                onClick={() => setIsSharePanelOpen(!isSharePanelOpen)}
+                disabled={!generatedResult}
+                title="Share a read-only link for review"
+              >
+                🔗 Share{shareCount > 0 ? ` (${shareCount})` : ''}
+              </button>
+              {isSharePanelOpen && sharePanel}
+            </div>
+            <div className="publish-menu">
+              <button
+                className={`dashboard-nav-btn primary ${isPublished ? 'published' : ''}`}
+                onClick={() => setIsPublishPanelOpen(!isPublishPanelOpen)}
+                disabled={!generatedResult}
+              >
+                {isPublished ? '🌐 Published' : 'Publish'}
+              </button>
+              {isPublishPanelOpen && publishPanel}
+            </div>
           </div>
         </nav>
 
@@ -4577,12 +4605,12 @@ ${extractedJs}`;
                     
                     <button 
                       type="button" 
-                      className={`input-mic-button ${isRecording ? 'recording' : ''}`}
+                      className={`input-mic-button ${recordingState === 'recording' ? 'recording' : ''}`}
                       onClick={handleMicrophoneClick}
-                      disabled={isLoading}
-                      title={isRecording ? 'Recording...' : 'Voice Input'}
+                      disabled={isLoading || recordingState === 'transcribing'}
+                      title={recordingState === 'recording' ? 'Stop recording' : 'Voice Input'}
                     >
-                      {isRecording ? (
+                      {recordingState === 'recording' ? (
                         <div className="recording-indicator">
                           <div className="recording-dot"></div>
                         </div>
@@ -4600,9 +4628,10 @@ ${extractedJs}`;
                   {uploadedImage && (
                     <div className="uploaded-image-preview">
                       <img 
-                        src={URL.createObjectURL(uploadedImage)} 
+                        src={imageDataUrl(uploadedImage)} 
                         alt="Uploaded preview" 
                         className="image-thumbnail"
+                        title={`${uploadedImage.name} (${uploadedImage.width}×${uploadedImage.height})`}
                       />
                       <button 
                         type="button" 
@@ -4618,7 +4647,7 @@ ${extractedJs}`;
                     type="text"
                     value={localInputPrompt}
                     onChange={(e) => setLocalInputPrompt(e.target.value)}
-                    placeholder="Refine your design or ask for changes..."
+                    placeholder={uploadedImage ? 'Describe what to build from this image (optional)...' : 'Refine your design or ask for changes...'}
                     className="chat-input"
                     disabled={isLoading}
                   />
@@ -4634,10 +4663,31 @@ ${extractedJs}`;
                 <input
                   ref={fileInputRef}
                   type="file"
-                  accept="image/*"
+                  accept={ACCEPTED_IMAGE_TYPES.join(',')}
                   onChange={handleImageUpload}
                   style={{ display: 'none' }}
                 />
+                {recordingState !== 'idle' && (
+                  <div className={`voice-input-status ${recordingState}`}>
+                    {recordingState === 'recording' ? (
+                      <>
+                        <span className="voice-input-dot" />
+                        Recording {formatRecordingTime(recordingSeconds)}
+                        <button type="button" className="voice-input-stop" onClick={stopRecording}>
+                          Stop
+                        </button>
+                      </>
+                    ) : (
+                      'Transcribing your recording...'
+                    )}
+                  </div>
+                )}
+                {inputError && (
+                  <div className="input-error">
+                    {inputError}
+                    <button type="button" onClick={() => setInputError(null)} title="Dismiss">×</button>
+                  </div>
+                )}
               </form>
             </div>
           </div>
@@ -4649,6 +4699,7 @@ ${extractedJs}`;
                   selectedFile={selectedFile}
                   onFileSelect={setSelectedFile}
                   onCodeChange={handleCodeChange}
+                  onSaveRevision={onSaveCode}
                 />
               ) : (
                 <LiveEditor
@@ -4660,15 +4711,36 @@ ${extractedJs}`;
                 refreshKey={refreshKey}
                 currentProject={currentProject}
                 addStyleEdit={addStyleEdit}
-                generateSelectorForElement={generateSelectorForElement}
                 appliedProjectId={appliedProjectId}
+                edits={pendingEdits}
+                scriptsPaused={scriptsPaused}
               />
             )
+          ) : partialCode ? (
+            // 🎯 Render the page as it streams in - scripts stay disabled until it is complete
+            <div className="empty-canvas streaming-canvas">
+              <iframe
+                srcDoc={partialCode}
+                title="Streaming Preview"
+                className="preview-iframe streaming-preview-iframe"
+                sandbox=""
+              />
+              {currentStep && (
+                <div className="streaming-status-pill">
+                  <div className="progress-dot"></div>
+                  <span>{currentStep}</span>
+                  <button type="button" className="streaming-cancel-button" onClick={goToLanding} title="Cancel generation">
+                    Cancel
+                  </button>
+                </div>
+              )}
+            </div>
           ) : (
             <div className="empty-canvas">
-                <StreamingBuilder key={generationKey} currentStep={currentStep} />
+                <StreamingBuilder key={generationKey} currentStep={currentStep} onCancel={goToLanding} />
             </div>
           )}
+          {generatedResult && editMode && !codeViewMode && previewConsole}
           </div>
         </SplitPane>
           
@@ -4862,6 +4934,16 @@ ${extractedJs}`;
     );
   };
 
+  const comparingProject = comparingProjectId ? savedDesigns.find(d => d.id === comparingProjectId) : undefined;
+  const workspaceProject = savedDesigns.find(d => d.id === (currentProject?.id || generatedResult?.id));
+  const workspaceCode = workspaceProject && (editedCode || generatedResult?.code || workspaceProject.code);
+  const workspaceEdits = workspaceProject && getEdits(workspaceProject);
+  // Parses the whole page, so only when the code or the edits change (the store replaces the list)
+  const unresolvedEdits = useMemo(
+    () => (workspaceCode && workspaceEdits ? findUnresolvedEdits(workspaceCode, workspaceEdits) : []),
+    [workspaceCode, workspaceEdits]
+  );
+
   return (
     <div className={`app ${editMode ? 'edit-mode-active' : ''}`}>
       {/* Top Navigation Bar - Only visible on landing page */}
@@ -4899,6 +4981,7 @@ ${extractedJs}`;
             savedDesigns={savedDesigns}
             isLoading={isLoading}
             selectedModel={selectedModel}
+            availableModels={availableModels}
             onModelChange={setSelectedModel}
             onSubmit={handleSubmit}
             onOpenProject={openProject}
@@ -4907,6 +4990,10 @@ ${extractedJs}`;
             error={error}
             generationMode={generationMode}
             onGenerationModeChange={setGenerationMode}
+            usageSummary={usageSummary}
+            variantPresets={variantPresets}
+            shareLinks={shareLinks}
+            onRevokeShare={revokeShare}
           />
         </div>
       ) : (
@@ -4923,14 +5010,14 @@ ${extractedJs}`;
             chatMessages={chatMessages}
             isGenerating={isGenerating}
             currentStep={currentStep}
-            onCodeChange={() => {}}
+            partialCode={partialCode}
+            onCodeChange={handleRefine}
             onSave={() => {}}
             currentViewport={currentViewport}
             setCurrentViewport={setCurrentViewport}
             refreshKey={refreshKey}
             currentProject={currentProject}
             addStyleEdit={addStyleEdit}
-            generateSelectorForElement={generateSelectorForElement}
             appliedProjectId={appliedProjectId}
             isPresetsPanelOpen={isPresetsPanelOpen}
             setIsPresetsPanelOpen={setIsPresetsPanelOpen}
@@ -4939,6 +5026,74 @@ ${extractedJs}`;
             handleRefreshPreview={handleRefreshPreview}
             isFullscreen={isFullscreen}
             setIsFullscreen={setIsFullscreen}
+            onGenerateFromImage={(imagePrompt, image) => handleSubmit(imagePrompt, undefined, [image])}
+            isPublished={!!workspaceProject?.published}
+            isPublishPanelOpen={isPublishPanelOpen}
+            setIsPublishPanelOpen={(open) => {
+              setIsPublishPanelOpen(open);
+              setPublishError(null);
+            }}
+            publishPanel={workspaceProject ? (
+              <PublishPanel
+                published={workspaceProject.published}
+                getHtml={() => exportProjectHtml(workspaceProject)}
+                isBusy={isPublishing}
+                error={publishError}
+                onPublish={(slug) => publishWorkspaceProject(workspaceProject, slug)}
+                onUnpublish={() => unpublishWorkspaceProject(workspaceProject)}
+                onClose={() => setIsPublishPanelOpen(false)}
+              />
+            ) : (
+              <div className="publish-panel">
+                <p className="publish-panel-meta">The project is still being saved - try again in a moment.</p>
+              </div>
+            )}
+            revisionCount={workspaceProject?.revisions?.length || 0}
+            onOpenHistory={() => setIsHistoryOpen(true)}
+            onSaveCode={commitCodeEdit}
+            pendingEdits={workspaceProject ? getEdits(workspaceProject) : []}
+            unresolvedEdits={unresolvedEdits}
+            onDiscardUnresolvedEdits={() => workspaceProject && discardEdits(workspaceProject, unresolvedEdits)}
+            editHistoryButtons={workspaceProject ? (
+              <EditHistoryButtons
+                project={workspaceProject}
+                onUndo={() => stepEditHistory('undo')}
+                onRedo={() => stepEditHistory('redo')}
+              />
+            ) : null}
+            scriptsPaused={arePreviewScriptsPaused}
+            previewConsole={
+              <PreviewConsole
+                scriptsPaused={arePreviewScriptsPaused}
+                onToggleScriptsPaused={() => setArePreviewScriptsPaused(paused => !paused)}
+              />
+            }
+            shareCount={shareLinks.filter(share => share.projectId === workspaceProject?.id && !share.expired).length}
+            isSharePanelOpen={isSharePanelOpen}
+            setIsSharePanelOpen={(open) => {
+              setIsSharePanelOpen(open);
+              setShareError(null);
+              setCreatedShareToken(null);
+            }}
+            sharePanel={workspaceProject ? (
+              <SharePanel
+                revisions={workspaceProject.revisions || []}
+                shares={shareLinks.filter(share => share.projectId === workspaceProject.id)}
+                createdToken={createdShareToken}
+                isBusy={isSharing}
+                error={shareError}
+                onCreate={(options) => createWorkspaceShare(workspaceProject, options)}
+                onRevoke={revokeShare}
+                onClose={() => setIsSharePanelOpen(false)}
+              />
+            ) : (
+              <div className="share-panel">
+                <p className="share-panel-error">The project is still being saved - try again in a moment.</p>
+              </div>
+            )}
+            onCompareAlternates={workspaceProject?.alternates && workspaceProject.alternates.length > 1
+              ? () => openAlternates(workspaceProject.id)
+              : undefined}
           />
         </div>
       )}
@@ -4949,72 +5104,107 @@ ${extractedJs}`;
           <div className="variant-selector-container">
             <div className="variant-selector-header">
               <h2>Choose Your Design Style</h2>
-              <p>We've generated two design variations for you. Pick the one you like!</p>
+              <p>
+                {generatingVariants
+                  ? `We're generating ${requestedVariantCount} design variations for you.`
+                  : `We've generated ${variants.length} design variations for you. Pick the one you like!`}
+              </p>
+              {!generatingVariants && variants.length < requestedVariantCount && (
+                <p className="variant-selector-note">
+                  {requestedVariantCount - variants.length} of the requested variations could not be generated.
+                </p>
+              )}
+              {!generatingVariants && !mixingVariants && variants.length > 1 && (
+                <button type="button" className="variant-mix-toggle" onClick={() => setMixingVariants(true)}>
+                  🧩 Mix sections from different variants
+                </button>
+              )}
             </div>
             
-            {generatingVariants ? (
+            {mixingVariants && !generatingVariants ? (
+              <VariantMixer
+                variants={mixerVariants}
+                onUse={handleMixSelect}
+                onCancel={() => setMixingVariants(false)}
+              />
+            ) : generatingVariants ? (
               <div className="variants-loading">
                 <div className="loading-spinner"></div>
-                <p>Generating two design variations...</p>
+                <p>Generating {requestedVariantCount} design variations...</p>
                 <span className="loading-subtext">This may take a moment</span>
+                <button type="button" className="cancel-generation-button" onClick={cancelGeneration}>
+                  Cancel
+                </button>
               </div>
             ) : (
-              <div className="variants-grid">
-                {/* Variant A */}
-                <div className="variant-card">
-                  <div className="variant-header">
-                    <div className="variant-badge variant-a">Variant A</div>
-                    <div className="variant-label">Bold & Vibrant</div>
-                  </div>
-                  <div className="variant-preview">
-                    {variantA && (
-                      <iframe
-                        srcDoc={variantA.code}
-                        className="variant-iframe"
-                        title="Variant A Preview"
-                        sandbox="allow-scripts"
-                      />
-                    )}
-                  </div>
-                  <div className="variant-description">
-                    <p>Modern design with bold colors, strong shadows, and high contrast</p>
-                  </div>
-                  <button 
-                    className="variant-select-btn variant-a-btn"
-                    onClick={() => handleVariantSelect('A')}
-                  >
-                    Select This Design
+              <VariantComparison
+                items={variants.map((variant, index) => ({
+                  key: String(index),
+                  code: variant.code,
+                  direction: variant.direction,
+                  actions: (
+                    <button 
+                      className={`variant-select-btn variant-${String.fromCharCode(97 + index)}-btn`}
+                      onClick={() => handleVariantSelect(index)}
+                    >
+                      Select This Design
+                    </button>
+                  ),
+                }))}
+              />
+            )}
+          </div>
+        </div>
+      )}
+
+      {isHistoryOpen && workspaceProject && currentView !== 'landing' && (
+        <HistoryPanel
+          revisions={workspaceProject.revisions || []}
+          hasPendingEdits={hasUnsavedStyleEdits(workspaceProject)}
+          onRestore={(revisionId) => restoreRevision(workspaceProject.id, revisionId)}
+          onLabel={(revisionId, label) => labelRevision(workspaceProject.id, revisionId, label)}
+          onClose={() => setIsHistoryOpen(false)}
+        />
+      )}
+
+      {/* Alternates of a saved project - same cards as the variant selector */}
+      {comparingProject?.alternates && (
+        <div className="variant-selector-overlay">
+          <div className="variant-selector-container">
+            <div className="variant-selector-header">
+              <button type="button" className="variant-selector-close" onClick={() => setComparingProjectId(null)} title="Close">
+                ×
+              </button>
+              <h2>Compare Alternates</h2>
+              <p>Switch this project to another design, or save one as a project of its own.</p>
+            </div>
+            <VariantComparison
+              items={comparingProject.alternates.map((alternate, index) => ({
+                key: alternate.id,
+                code: alternate.code,
+                direction: alternate.direction,
+                actions: alternate.id === comparingProject.activeAlternateId ? (
+                  <button className="variant-select-btn variant-current-btn" disabled>
+                    Current Design
                   </button>
-                </div>
-                
-                {/* Variant B */}
-                <div className="variant-card">
-                  <div className="variant-header">
-                    <div className="variant-badge variant-b">Variant B</div>
-                    <div className="variant-label">Minimal & Elegant</div>
-                  </div>
-                  <div className="variant-preview">
-                    {variantB && (
-                      <iframe
-                        srcDoc={variantB.code}
-                        className="variant-iframe"
-                        title="Variant B Preview"
-                        sandbox="allow-scripts"
-                      />
-                    )}
-                  </div>
-                  <div className="variant-description">
-                    <p>Clean design with subtle colors, soft shadows, and refined spacing</p>
+                ) : (
+                  <div className="variant-actions">
+                    <button 
+                      className={`variant-select-btn variant-${String.fromCharCode(97 + index)}-btn`}
+                      onClick={() => switchToAlternate(comparingProject.id, alternate.id)}
+                    >
+                      Use This Design
+                    </button>
+                    <button 
+                      className="variant-promote-btn"
+                      onClick={() => promoteAlternate(comparingProject.id, alternate.id)}
+                    >
+                      Save as New Project
+                    </button>
                   </div>
-                  <button 
-                    className="variant-select-btn variant-b-btn"
-                    onClick={() => handleVariantSelect('B')}
-                  >
-                    Select This Design
-                  </button>
-                </div>
-              </div>
-            )}
+                ),
+              }))}
+            />
           </div>
         </div>
       )}
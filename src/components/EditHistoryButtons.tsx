@@ -0,0 +1,41 @@
+import React, { useSyncExternalStore } from 'react';
+import { describeEditCommand, editsVersion, getEditHistory, subscribeToEdits } from '../lib/editStore';
+import type { SavedDesign } from '../lib/projectsApi';
+
+interface EditHistoryButtonsProps {
+  project: SavedDesign;
+  onUndo: () => void;
+  onRedo: () => void;
+}
+
+const MODIFIER = /Mac|iPhone|iPad/.test(navigator.userAgent) ? '⌘' : 'Ctrl+';
+
+// Undo and redo for the project's visual edits. Edits are recorded without re-rendering the
+// workspace, so the buttons follow the edit store themselves.
+export const EditHistoryButtons: React.FC<EditHistoryButtonsProps> = ({ project, onUndo, onRedo }) => {
+  useSyncExternalStore(subscribeToEdits, editsVersion);
+  const { undo, redo } = getEditHistory(project);
+  const nextUndo = undo[undo.length - 1];
+  const nextRedo = redo[redo.length - 1];
+
+  return (
+    <>
+      <button
+        onClick={onUndo}
+        className="dashboard-nav-btn"
+        disabled={!nextUndo}
+        title={nextUndo ? `Undo ${describeEditCommand(nextUndo)} (${MODIFIER}Z)` : 'Nothing to undo'}
+      >
+        ↶
+      </button>
+      <button
+        onClick={onRedo}
+        className="dashboard-nav-btn"
+        disabled={!nextRedo}
+        title={nextRedo ? `Redo ${describeEditCommand(nextRedo)} (Shift+${MODIFIER}Z)` : 'Nothing to redo'}
+      >
+        ↷
+      </button>
+    </>
+  );
+};
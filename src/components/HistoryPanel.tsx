@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import type { ProjectRevision } from '../lib/projectsApi';
+import './HistoryPanel.css';
+
+interface HistoryPanelProps {
+  revisions: ProjectRevision[]; // Oldest first; the last one is the current design
+  hasPendingEdits: boolean; // Style edits not yet saved as a revision
+  onRestore: (revisionId: string) => void;
+  onLabel: (revisionId: string, label: string) => void;
+  onClose: () => void;
+}
+
+const SOURCE_LABELS: Record<ProjectRevision['source'], string> = {
+  generate: '✨ Generated',
+  refine: '🪄 Refined',
+  alternate: '🔀 Alternate',
+  code: '⌨️ Code edit',
+  edits: '🎨 Style edits',
+  restore: '↩️ Restored',
+};
+
+// Every revision of a project: preview any of them, name them, and restore one as the current design
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ revisions, hasPendingEdits, onRestore, onLabel, onClose }) => {
+  const current = revisions[revisions.length - 1];
+  const [selectedId, setSelectedId] = useState(current?.id);
+  const [labelDraft, setLabelDraft] = useState<string | null>(null);
+
+  const selectedIndex = Math.max(0, revisions.findIndex(revision => revision.id === selectedId));
+  const selected = revisions[selectedIndex];
+
+  const selectRevision = (id: string) => {
+    setSelectedId(id);
+    setLabelDraft(null);
+  };
+
+  const saveLabel = () => {
+    if (labelDraft === null || !selected) return;
+    onLabel(selected.id, labelDraft.trim());
+    setLabelDraft(null);
+  };
+
+  return (
+    <div className="history-overlay" onClick={onClose}>
+      <div className="history-panel" role="dialog" aria-label="Version history" onClick={(e) => e.stopPropagation()}>
+        <div className="history-list">
+          <div className="history-list-header">
+            <h2>Version history</h2>
+            <span>{revisions.length} {revisions.length === 1 ? 'revision' : 'revisions'}</span>
+          </div>
+          {hasPendingEdits && (
+            <p className="history-pending">Unsaved style edits become a revision when you leave edit mode.</p>
+          )}
+          <ol>
+            {revisions.map((revision, index) => ({ revision, index })).reverse().map(({ revision, index }) => (
+              <li key={revision.id}>
+                <button
+                  type="button"
+                  className={`history-item ${revision.id === selected?.id ? 'selected' : ''}`}
+                  onClick={() => selectRevision(revision.id)}
+                >
+                  <span className="history-item-top">
+                    <span className="history-item-number">#{index + 1}</span>
+                    <span className="history-item-source">{SOURCE_LABELS[revision.source]}</span>
+                    {revision === current && <span className="history-item-current">Current</span>}
+                  </span>
+                  {revision.label && <span className="history-item-label">{revision.label}</span>}
+                  <span className="history-item-instruction">{revision.instruction}</span>
+                  <span className="history-item-time">{new Date(revision.timestamp).toLocaleString()}</span>
+                </button>
+              </li>
+            ))}
+          </ol>
+        </div>
+
+        {selected ? (
+          <div className="history-preview">
+            <div className="history-preview-bar">
+              {labelDraft === null ? (
+                <button type="button" className="history-label-btn" onClick={() => setLabelDraft(selected.label || '')}>
+                  {selected.label ? `🏷️ ${selected.label}` : '🏷️ Name this version'}
+                </button>
+              ) : (
+                <form className="history-label-form" onSubmit={(e) => { e.preventDefault(); saveLabel(); }}>
+                  <input
+                    type="text"
+                    value={labelDraft}
+                    onChange={(e) => setLabelDraft(e.target.value)}
+                    placeholder="e.g. Approved by client"
+                    maxLength={80}
+                    autoFocus
+                  />
+                  <button type="submit">Save</button>
+                  <button type="button" onClick={() => setLabelDraft(null)}>Cancel</button>
+                </form>
+              )}
+              <button
+                type="button"
+                className="history-restore-btn"
+                onClick={() => onRestore(selected.id)}
+                disabled={selected === current}
+                title={selected === current ? 'This is the current design' : 'Make this the current design - newer revisions are kept'}
+              >
+                Restore revision #{selectedIndex + 1}
+              </button>
+              <button type="button" className="history-close" onClick={onClose} title="Close">×</button>
+            </div>
+            <iframe
+              key={selected.id}
+              className="history-preview-frame"
+              srcDoc={selected.code}
+              sandbox="allow-scripts"
+              title={`Revision ${selectedIndex + 1}`}
+            />
+          </div>
+        ) : (
+          <div className="history-preview history-empty">
+            <p>This project has no revisions yet.</p>
+            <button type="button" className="history-close" onClick={onClose} title="Close">×</button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
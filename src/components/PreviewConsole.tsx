@@ -0,0 +1,75 @@
+import React, { useSyncExternalStore } from 'react';
+import { clearConsole, consoleVersion, getConsoleEntries, isConsoleOpen, subscribeToConsole, toggleConsole, type ConsoleLevel } from '../lib/previewConsole';
+import './PreviewConsole.css';
+
+interface PreviewConsoleProps {
+  scriptsPaused: boolean;
+  onToggleScriptsPaused: () => void;
+}
+
+const LEVEL_ICONS: Record<ConsoleLevel, string> = {
+  log: '',
+  info: 'ℹ️',
+  warn: '⚠️',
+  error: '❌',
+};
+
+// What the page in the edit-mode preview logged, docked under the preview, with the switch that
+// pauses its scripts. Entries arrive without re-rendering the workspace, so it follows the console
+// store itself.
+export const PreviewConsole: React.FC<PreviewConsoleProps> = ({ scriptsPaused, onToggleScriptsPaused }) => {
+  useSyncExternalStore(subscribeToConsole, consoleVersion);
+  const entries = getConsoleEntries();
+  const isOpen = isConsoleOpen();
+  const countOf = (level: ConsoleLevel) =>
+    entries.filter(entry => entry.level === level).reduce((total, entry) => total + entry.count, 0);
+  const errors = countOf('error');
+  const warnings = countOf('warn');
+
+  return (
+    <div className={`preview-console ${isOpen ? 'open' : ''}`}>
+      <div className="preview-console-bar">
+        <button type="button" className="preview-console-toggle" onClick={toggleConsole} title={isOpen ? 'Hide the console' : 'Show the console'}>
+          <span className="preview-console-arrow">{isOpen ? '▾' : '▸'}</span>
+          Console
+          {errors > 0 && <span className="preview-console-badge error">{errors}</span>}
+          {warnings > 0 && <span className="preview-console-badge warn">{warnings}</span>}
+        </button>
+        <div className="preview-console-actions">
+          {isOpen && entries.length > 0 && (
+            <button type="button" onClick={clearConsole}>Clear</button>
+          )}
+          <button
+            type="button"
+            className={scriptsPaused ? 'active' : ''}
+            onClick={onToggleScriptsPaused}
+            title={scriptsPaused
+              ? "Reload the preview with the page's scripts running"
+              : "Reload the preview without running the page's scripts, so nothing moves while you select elements"}
+          >
+            {scriptsPaused ? '▶ Run scripts' : '⏸ Pause scripts'}
+          </button>
+        </div>
+      </div>
+
+      {isOpen && (
+        <ol className="preview-console-entries">
+          {scriptsPaused && (
+            <li className="preview-console-entry info">Scripts are paused - the page is shown as its HTML and CSS alone.</li>
+          )}
+          {entries.length === 0 && !scriptsPaused && (
+            <li className="preview-console-empty">Nothing logged by this page.</li>
+          )}
+          {entries.map(entry => (
+            <li key={entry.id} className={`preview-console-entry ${entry.level}`}>
+              <span className="preview-console-icon">{LEVEL_ICONS[entry.level]}</span>
+              <pre className="preview-console-text">{entry.text}</pre>
+              {entry.count > 1 && <span className="preview-console-count">{entry.count}</span>}
+              {entry.source && <span className="preview-console-source">{entry.source}</span>}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
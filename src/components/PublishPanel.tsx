@@ -0,0 +1,97 @@
+import React, { useEffect, useState } from 'react';
+import { hashPublishedHtml, publishedSiteUrl, type PublishedSite } from '../lib/projectsApi';
+import './PublishPanel.css';
+
+interface PublishPanelProps {
+  published: PublishedSite | null | undefined;
+  getHtml: () => string; // Final page with the saved edits applied, what a publish would write
+  isBusy: boolean;
+  error: string | null;
+  onPublish: (slug?: string) => void;
+  onUnpublish: () => void;
+  onClose: () => void;
+}
+
+// Dropdown under the Publish button: publish, copy the link, republish after changes, unpublish
+export const PublishPanel: React.FC<PublishPanelProps> = ({ published, getHtml, isBusy, error, onPublish, onUnpublish, onClose }) => {
+  const [slug, setSlug] = useState(published?.slug ?? '');
+  const [hasChanges, setHasChanges] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    setSlug(published?.slug ?? '');
+  }, [published?.slug]);
+
+  // Compare what would be published now with what is online
+  useEffect(() => {
+    if (!published) return;
+    let cancelled = false;
+    hashPublishedHtml(getHtml()).then(hash => {
+      if (!cancelled) setHasChanges(hash !== published.sourceHash);
+    });
+    return () => { cancelled = true; };
+  }, [published, getHtml]);
+
+  const url = published ? publishedSiteUrl(published) : null;
+  const requestedSlug = slug.trim() && slug.trim() !== published?.slug ? slug.trim() : undefined;
+
+  const copyLink = async () => {
+    if (!url) return;
+    await navigator.clipboard.writeText(url);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  return (
+    <div className="publish-panel" role="dialog" aria-label="Publish">
+      <div className="publish-panel-header">
+        <span>{published ? 'Published' : 'Publish this design'}</span>
+        <button type="button" className="publish-panel-close" onClick={onClose} title="Close">×</button>
+      </div>
+
+      {published && url ? (
+        <>
+          <div className="publish-panel-url">
+            <a href={url} target="_blank" rel="noreferrer">{url}</a>
+            <button type="button" onClick={copyLink}>{copied ? 'Copied' : 'Copy'}</button>
+          </div>
+          <p className="publish-panel-meta">
+            Version {published.version} · {new Date(published.publishedAt).toLocaleString()}
+            {hasChanges && <span className="publish-panel-changes"> · The design has changed since</span>}
+          </p>
+        </>
+      ) : (
+        <p className="publish-panel-meta">
+          Creates a page on this Prism server that anyone with the link can open. Saved style edits are included.
+        </p>
+      )}
+
+      <label className="publish-panel-slug">
+        <span>Address</span>
+        <div>
+          <span className="publish-panel-prefix">/sites/</span>
+          <input
+            type="text"
+            value={slug}
+            onChange={(e) => setSlug(e.target.value.toLowerCase())}
+            placeholder="chosen from the prompt"
+            disabled={isBusy}
+          />
+        </div>
+      </label>
+
+      {error && <p className="publish-panel-error">{error}</p>}
+
+      <div className="publish-panel-actions">
+        <button type="button" className="publish-panel-primary" onClick={() => onPublish(requestedSlug)} disabled={isBusy}>
+          {isBusy ? 'Working...' : published ? 'Republish' : 'Publish'}
+        </button>
+        {published && (
+          <button type="button" className="publish-panel-unpublish" onClick={onUnpublish} disabled={isBusy}>
+            Unpublish
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { describeShareLink, shareLinkUrl, type ProjectRevision, type ShareLink } from '../lib/projectsApi';
+import './SharePanel.css';
+
+export interface ShareOptions {
+  revisionId?: string; // Current design when missing
+  expiresInHours?: number; // Never expires when missing
+  passcode?: string;
+}
+
+interface SharePanelProps {
+  revisions: ProjectRevision[];
+  shares: ShareLink[]; // This project's links, newest first
+  createdToken: string | null; // Link created last, shown at the top with its URL
+  isBusy: boolean;
+  error: string | null;
+  onCreate: (options: ShareOptions) => void;
+  onRevoke: (token: string) => void;
+  onClose: () => void;
+}
+
+const EXPIRY_OPTIONS = [
+  { label: 'Never', hours: 0 },
+  { label: '1 day', hours: 24 },
+  { label: '7 days', hours: 24 * 7 },
+  { label: '30 days', hours: 24 * 30 },
+];
+
+// Dropdown under the Share button: create read-only review links and revoke the old ones
+export const SharePanel: React.FC<SharePanelProps> = ({ revisions, shares, createdToken, isBusy, error, onCreate, onRevoke, onClose }) => {
+  const [revisionId, setRevisionId] = useState('');
+  const [expiresInHours, setExpiresInHours] = useState(24 * 7);
+  const [passcode, setPasscode] = useState('');
+  const [copiedToken, setCopiedToken] = useState<string | null>(null);
+
+  const created = shares.find(share => share.token === createdToken);
+
+  const copyLink = async (share: ShareLink) => {
+    await navigator.clipboard.writeText(shareLinkUrl(share));
+    setCopiedToken(share.token);
+    setTimeout(() => setCopiedToken(null), 1500);
+  };
+
+  const handleCreate = () => {
+    onCreate({
+      revisionId: revisionId || undefined,
+      expiresInHours: expiresInHours || undefined,
+      passcode: passcode.trim() || undefined,
+    });
+    setPasscode('');
+  };
+
+  return (
+    <div className="share-panel" role="dialog" aria-label="Share">
+      <div className="share-panel-header">
+        <span>Share a read-only link</span>
+        <button type="button" className="share-panel-close" onClick={onClose} title="Close">×</button>
+      </div>
+
+      {created && (
+        <div className="share-panel-url">
+          <a href={shareLinkUrl(created)} target="_blank" rel="noreferrer">{shareLinkUrl(created)}</a>
+          <button type="button" onClick={() => copyLink(created)}>{copiedToken === created.token ? 'Copied' : 'Copy'}</button>
+        </div>
+      )}
+
+      <label className="share-panel-field">
+        <span>Version</span>
+        <select value={revisionId} onChange={(e) => setRevisionId(e.target.value)} disabled={isBusy}>
+          <option value="">Current design, with style edits</option>
+          {[...revisions].reverse().map((revision, index) => (
+            <option key={revision.id} value={revision.id}>
+              #{revisions.length - index} · {revision.instruction.slice(0, 40)}{revision.instruction.length > 40 ? '...' : ''}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <div className="share-panel-row">
+        <label className="share-panel-field">
+          <span>Expires</span>
+          <select value={expiresInHours} onChange={(e) => setExpiresInHours(Number(e.target.value))} disabled={isBusy}>
+            {EXPIRY_OPTIONS.map(option => (
+              <option key={option.hours} value={option.hours}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="share-panel-field">
+          <span>Passcode</span>
+          <input
+            type="text"
+            value={passcode}
+            onChange={(e) => setPasscode(e.target.value)}
+            placeholder="Optional"
+            autoComplete="off"
+            disabled={isBusy}
+          />
+        </label>
+      </div>
+
+      {error && <p className="share-panel-error">{error}</p>}
+
+      <button type="button" className="share-panel-primary" onClick={handleCreate} disabled={isBusy}>
+        {isBusy ? 'Working...' : 'Create link'}
+      </button>
+
+      {shares.length > 0 && (
+        <ul className="share-panel-links">
+          {shares.map(share => (
+            <li key={share.token} className={share.expired ? 'expired' : ''}>
+              <div>
+                <span>{describeShareLink(share)}</span>
+                <small>Created {new Date(share.createdAt).toLocaleString()}</small>
+              </div>
+              {!share.expired && (
+                <button type="button" onClick={() => copyLink(share)}>{copiedToken === share.token ? 'Copied' : 'Copy'}</button>
+              )}
+              <button type="button" className="share-panel-revoke" onClick={() => onRevoke(share.token)} disabled={isBusy}>
+                Revoke
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
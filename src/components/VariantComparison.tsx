@@ -0,0 +1,255 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { VariantDirection } from '../lib/api';
+import { diffVariants, highlightSections } from '../lib/variantDiff';
+import './VariantComparison.css';
+
+export interface ComparisonItem {
+  key: string;
+  code: string;
+  direction: VariantDirection;
+  actions: React.ReactNode; // Buttons under the preview
+}
+
+interface VariantComparisonProps {
+  items: ComparisonItem[];
+}
+
+type Viewport = 'desktop' | 'tablet' | 'mobile';
+
+const VIEWPORTS: { id: Viewport; icon: string; label: string; width: number }[] = [
+  { id: 'desktop', icon: '🖥️', label: 'Desktop', width: 1280 },
+  { id: 'tablet', icon: '📱', label: 'Tablet', width: 768 },
+  { id: 'mobile', icon: '📲', label: 'Mobile', width: 390 },
+];
+
+const SCROLL_EVENT = 'prism-compare-scroll';
+const SCROLL_TO_EVENT = 'prism-compare-scroll-to';
+
+// The previews are sandboxed without same-origin access, so each one reports its scroll position
+// as a fraction of its scrollable height and applies the positions of the others via postMessage.
+// Scroll events caused by applying a position are not reported back, or the previews would fight.
+const SCROLL_SYNC_SCRIPT = `<script data-prism-compare>(function () {
+  var applyingUntil = 0;
+  var maxScroll = function () { return document.documentElement.scrollHeight - window.innerHeight; };
+  window.addEventListener('scroll', function () {
+    if (Date.now() < applyingUntil) return;
+    var max = maxScroll();
+    parent.postMessage({ type: '${SCROLL_EVENT}', ratio: max > 0 ? window.scrollY / max : 0 }, '*');
+  }, { passive: true });
+  window.addEventListener('message', function (event) {
+    if (!event.data || event.data.type !== '${SCROLL_TO_EVENT}') return;
+    applyingUntil = Date.now() + 150;
+    window.scrollTo(0, event.data.ratio * maxScroll());
+  });
+})();</script>`;
+
+const withScrollSync = (html: string) =>
+  /<\/body>/i.test(html) ? html.replace(/<\/body>(?![\s\S]*<\/body>)/i, `${SCROLL_SYNC_SCRIPT}</body>`) : html + SCROLL_SYNC_SCRIPT;
+
+const letter = (index: number) => String.fromCharCode(65 + index);
+
+interface ScaledPreviewProps {
+  code: string;
+  width: number;
+  title: string;
+  frameRef: (frame: HTMLIFrameElement | null) => void;
+}
+
+// Render the page at the width of the chosen device and scale it down to fit the card
+const ScaledPreview: React.FC<ScaledPreviewProps> = ({ code, width, title, frameRef }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const scale = size.width > 0 ? Math.min(1, size.width / width) : 1;
+
+  return (
+    <div className="variant-preview" ref={containerRef}>
+      <iframe
+        ref={frameRef}
+        srcDoc={code}
+        className="variant-iframe"
+        title={title}
+        sandbox="allow-scripts"
+        style={{
+          width,
+          height: size.height / scale,
+          transform: `scale(${scale})`,
+          left: Math.max(0, (size.width - width * scale) / 2),
+        }}
+      />
+    </div>
+  );
+};
+
+// Variant cards side by side with a shared device width, synchronized scrolling and an
+// optional overlay of the sections and colors that differ from a reference variant
+export const VariantComparison: React.FC<VariantComparisonProps> = ({ items }) => {
+  const [viewport, setViewport] = useState<Viewport>('desktop');
+  const [syncScroll, setSyncScroll] = useState(true);
+  const [showDiff, setShowDiff] = useState(false);
+  const [referenceIndex, setReferenceIndex] = useState(0);
+  const frames = useRef<(HTMLIFrameElement | null)[]>([]);
+
+  const referencePosition = Math.min(referenceIndex, items.length - 1);
+
+  // The caller rebuilds the items (and their buttons) on every render, so the diffs and previews,
+  // which parse every page, are keyed on the pages' code instead
+  const codesKey = JSON.stringify(items.map(item => item.code));
+  const codes = useMemo(() => JSON.parse(codesKey) as string[], [codesKey]);
+
+  const diffs = useMemo(
+    () => showDiff ? codes.map((code, index) => index === referencePosition ? null : diffVariants(codes[referencePosition], code)) : [],
+    [showDiff, codes, referencePosition]
+  );
+
+  const previews = useMemo(
+    () => codes.map((code, index) => {
+      const addedKeys = diffs[index]?.addedSections.map(section => section.key) ?? [];
+      return withScrollSync(highlightSections(code, addedKeys));
+    }),
+    [codes, diffs]
+  );
+
+  useEffect(() => {
+    if (!syncScroll) return;
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type !== SCROLL_EVENT) return;
+      const source = frames.current.find(frame => frame?.contentWindow === event.source);
+      if (!source) return;
+      frames.current.forEach(frame => {
+        if (frame && frame !== source) {
+          frame.contentWindow?.postMessage({ type: SCROLL_TO_EVENT, ratio: event.data.ratio }, '*');
+        }
+      });
+    };
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, [syncScroll]);
+
+  const width = VIEWPORTS.find(option => option.id === viewport)!.width;
+
+  return (
+    <div className="variant-comparison">
+      <div className="variant-comparison-toolbar">
+        <div className="variant-comparison-viewports">
+          {VIEWPORTS.map(option => (
+            <button
+              key={option.id}
+              type="button"
+              className={`variant-comparison-viewport ${viewport === option.id ? 'active' : ''}`}
+              onClick={() => setViewport(option.id)}
+              title={`${option.label} (${option.width}px)`}
+            >
+              {option.icon} {option.label}
+            </button>
+          ))}
+        </div>
+
+        <label className="variant-comparison-toggle">
+          <input type="checkbox" checked={syncScroll} onChange={(e) => setSyncScroll(e.target.checked)} />
+          Sync scrolling
+        </label>
+
+        <label className="variant-comparison-toggle">
+          <input type="checkbox" checked={showDiff} onChange={(e) => setShowDiff(e.target.checked)} />
+          Highlight differences
+        </label>
+
+        {showDiff && (
+          <label className="variant-comparison-reference">
+            <span>Compared with</span>
+            <select value={referencePosition} onChange={(e) => setReferenceIndex(Number(e.target.value))}>
+              {items.map((item, index) => (
+                <option key={item.key} value={index}>{letter(index)} - {item.direction.label}</option>
+              ))}
+            </select>
+          </label>
+        )}
+      </div>
+
+      <div className={`variants-grid columns-${Math.min(items.length, 3)}`}>
+        {items.map((item, index) => {
+          const diff = diffs[index];
+          return (
+            <div className="variant-card" key={item.key}>
+              <div className="variant-header">
+                <div className={`variant-badge variant-${letter(index).toLowerCase()}`}>Variant {letter(index)}</div>
+                <div className="variant-label" title={item.direction.description}>{item.direction.label}</div>
+              </div>
+
+              {showDiff && (
+                <div className="variant-diff">
+                  {diff ? (
+                    <>
+                      <div className="variant-diff-row">
+                        <span className="variant-diff-title">Sections</span>
+                        {diff.addedSections.length === 0 && diff.missingSections.length === 0 ? (
+                          <span className="variant-diff-same">Same as {letter(referencePosition)}</span>
+                        ) : (
+                          <>
+                            {diff.addedSections.map(section => (
+                              <span key={section.key} className="variant-diff-chip added" title={`Only in ${letter(index)}`}>
+                                + {section.label}
+                              </span>
+                            ))}
+                            {diff.missingSections.map(section => (
+                              <span key={section.key} className="variant-diff-chip missing" title={`Only in ${letter(referencePosition)}`}>
+                                − {section.label}
+                              </span>
+                            ))}
+                          </>
+                        )}
+                      </div>
+                      <div className="variant-diff-row">
+                        <span className="variant-diff-title">Palette</span>
+                        {diff.palette.map(color => (
+                          <span
+                            key={color}
+                            className={`variant-diff-swatch ${diff.addedColors.includes(color) ? 'added' : ''}`}
+                            style={{ background: color }}
+                            title={diff.addedColors.includes(color) ? `${color} - not used by ${letter(referencePosition)}` : color}
+                          />
+                        ))}
+                        {diff.missingColors.length > 0 && (
+                          <span className="variant-diff-missing-colors" title={`Used by ${letter(referencePosition)} only`}>
+                            without
+                            {diff.missingColors.map(color => (
+                              <span key={color} className="variant-diff-swatch missing" style={{ background: color }} title={color} />
+                            ))}
+                          </span>
+                        )}
+                      </div>
+                    </>
+                  ) : (
+                    <span className="variant-diff-same">Reference - the other variants are compared with this one</span>
+                  )}
+                </div>
+              )}
+
+              <ScaledPreview
+                code={previews[index]}
+                width={width}
+                title={`Variant ${letter(index)} Preview`}
+                frameRef={(frame) => { frames.current[index] = frame; }}
+              />
+              <div className="variant-description">
+                <p>{item.direction.custom ? `Your direction: ${item.direction.description}` : item.direction.description}</p>
+              </div>
+              {item.actions}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,102 @@
+import React, { useMemo, useState } from 'react';
+import { detectSections, mixVariants } from '../lib/variantMixer';
+import './VariantMixer.css';
+
+interface VariantMixerProps {
+  variants: { code: string; label: string }[];
+  onUse: (html: string, description: string) => void;
+  onCancel: () => void;
+}
+
+const letter = (index: number) => String.fromCharCode(65 + index);
+
+// Pick each top-level section from a different variant and preview the assembled page
+export const VariantMixer: React.FC<VariantMixerProps> = ({ variants, onUse, onCancel }) => {
+  const [baseIndex, setBaseIndex] = useState(0);
+  // Section key -> index of the variant it comes from; missing keys come from the base
+  const [choices, setChoices] = useState<Record<string, number>>({});
+
+  const sectionsByVariant = useMemo(() => variants.map(variant => detectSections(variant.code)), [variants]);
+  const baseSections = sectionsByVariant[baseIndex];
+
+  const mixed = useMemo(
+    () => mixVariants(variants.map(variant => variant.code), baseIndex, choices),
+    [variants, baseIndex, choices]
+  );
+
+  const description = useMemo(() => {
+    const borrowed = baseSections
+      .filter(section => choices[section.key] !== undefined && choices[section.key] !== baseIndex)
+      .map(section => `${variants[choices[section.key]].label}'s ${section.label.toLowerCase()}`);
+    return borrowed.length > 0
+      ? `${variants[baseIndex].label} with ${borrowed.join(', ')}`
+      : variants[baseIndex].label;
+  }, [baseSections, choices, baseIndex, variants]);
+
+  const handleBaseChange = (index: number) => {
+    setBaseIndex(index);
+    setChoices({});
+  };
+
+  return (
+    <div className="variant-mixer">
+      <div className="variant-mixer-controls">
+        <label className="variant-mixer-base">
+          <span>Start from</span>
+          <select value={baseIndex} onChange={(e) => handleBaseChange(Number(e.target.value))}>
+            {variants.map((variant, index) => (
+              <option key={index} value={index}>{letter(index)} - {variant.label}</option>
+            ))}
+          </select>
+        </label>
+
+        {baseSections.length < 2 ? (
+          <p className="variant-mixer-note">
+            No separate sections were found in this variant, so there is nothing to mix. Try starting from another one.
+          </p>
+        ) : (
+          <div className="variant-mixer-sections">
+            {baseSections.map(section => {
+              const sources = variants
+                .map((_, index) => index)
+                .filter(index => sectionsByVariant[index].some(candidate => candidate.key === section.key));
+              return (
+                <div className="variant-mixer-row" key={section.key}>
+                  <span className="variant-mixer-section-label">{section.label}</span>
+                  <select
+                    value={choices[section.key] ?? baseIndex}
+                    onChange={(e) => setChoices(prev => ({ ...prev, [section.key]: Number(e.target.value) }))}
+                    disabled={sources.length < 2}
+                  >
+                    {sources.map(index => (
+                      <option key={index} value={index}>{letter(index)} - {variants[index].label}</option>
+                    ))}
+                  </select>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {mixed.warnings.length > 0 && (
+          <ul className="variant-mixer-warnings">
+            {mixed.warnings.map(warning => <li key={warning}>{warning}</li>)}
+          </ul>
+        )}
+
+        <div className="variant-mixer-actions">
+          <button type="button" className="variant-mixer-back" onClick={onCancel}>
+            Back to variants
+          </button>
+          <button type="button" className="variant-mixer-use" onClick={() => onUse(mixed.html, description)}>
+            Use Mixed Design
+          </button>
+        </div>
+      </div>
+
+      <div className="variant-mixer-preview">
+        <iframe srcDoc={mixed.html} title="Mixed design preview" sandbox="allow-scripts" />
+      </div>
+    </div>
+  );
+};
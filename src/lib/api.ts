@@ -0,0 +1,171 @@
+// Base URL of the Prism Express server (see server.js)
+export const API_BASE_URL = 'http://localhost:3001';
+
+// True for the error fetch rejects with after its AbortController fires
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+// JSON request to the server's API routes; failures throw with the server's error details
+export const apiRequest = async <T>(path: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(`${API_BASE_URL}${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers },
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.details || data.error || `Request to ${path} failed (${response.status})`);
+  }
+  return data;
+};
+
+// Entry of the server-side model registry (server/models.js)
+export interface ModelInfo {
+  key: string;
+  label: string;
+  description: string;
+  maxTokens: number;
+  pricing: { input: number; output: number };
+  isDefault: boolean;
+}
+
+export const fetchAvailableModels = async (): Promise<{ models: ModelInfo[]; defaultModel: string }> => {
+  const response = await fetch(`${API_BASE_URL}/api/health`);
+  if (!response.ok) {
+    throw new Error('Failed to reach the Prism server');
+  }
+  const data = await response.json();
+  return { models: data.models || [], defaultModel: data.defaultModel };
+};
+
+export interface RefineResponse {
+  success: boolean;
+  code: string;
+  instruction: string;
+  model: string;
+  continuations: number;
+  truncated: boolean;
+  fixes: string[];
+  usage: {
+    input_tokens: number;
+    output_tokens: number;
+    estimatedCost: number;
+  };
+}
+
+// Ask the model to apply a follow-up instruction to an existing page
+export const refineDesign = async (body: { html: string; instruction: string; model: string; projectId?: string }, signal?: AbortSignal): Promise<RefineResponse> => {
+  const response = await fetch(`${API_BASE_URL}/api/refine`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal,
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || !data.success) {
+    throw new Error(data.details || data.error || 'Failed to refine interface');
+  }
+  return data;
+};
+
+// Aggregates from the server's usage ledger (GET /api/usage)
+export interface UsageBucket {
+  requests: number;
+  input_tokens: number;
+  output_tokens: number;
+  cost: number;
+}
+
+export interface UsageSummary {
+  totals: UsageBucket;
+  monthToDate: UsageBucket;
+  byDay: Record<string, UsageBucket>;
+  byModel: Record<string, UsageBucket>;
+  byProject: Record<string, UsageBucket>;
+  byKind: Record<string, UsageBucket>;
+}
+
+export const fetchUsageSummary = async (): Promise<UsageSummary> => {
+  const response = await fetch(`${API_BASE_URL}/api/usage`);
+  if (!response.ok) {
+    throw new Error('Failed to load usage');
+  }
+  return response.json();
+};
+
+// Dollar amount for spend badges; tiny amounts would otherwise round to $0.00
+export const formatCost = (cost: number): string =>
+  cost > 0 && cost < 0.01 ? '<$0.01' : `$${cost.toFixed(2)}`;
+
+// Named style direction for design variants (server/variants.js)
+export interface VariantPreset {
+  key: string;
+  label: string;
+  description: string;
+}
+
+export interface VariantDirection extends Omit<VariantPreset, 'key'> {
+  key: string | null; // null for free-text directions
+  custom: boolean;
+}
+
+export type VariantResult = {
+  direction: VariantDirection;
+} & (
+  | {
+      success: true;
+      code: string;
+      continuations: number;
+      truncated: boolean;
+      fixes: string[];
+      usage: RefineResponse['usage'];
+    }
+  | { success: false; error: string }
+);
+
+export interface VariantsResponse {
+  success: boolean;
+  model: string;
+  variants: VariantResult[];
+  usage: RefineResponse['usage'];
+}
+
+export const fetchVariantPresets = async (): Promise<{ presets: VariantPreset[]; minCount: number; maxCount: number }> => {
+  const response = await fetch(`${API_BASE_URL}/api/variants/presets`);
+  if (!response.ok) {
+    throw new Error('Failed to load variant presets');
+  }
+  return response.json();
+};
+
+// Generate `count` variants of one prompt; `directions` are preset keys or free text
+export const generateVariantDesigns = async (
+  body: { prompt: string; model: string; count: number; directions: string[]; projectId?: string },
+  signal?: AbortSignal
+): Promise<VariantsResponse> => {
+  const response = await fetch(`${API_BASE_URL}/api/variants`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal,
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || !data.success) {
+    throw new Error(data.details || data.error || 'Failed to generate variants');
+  }
+  return data;
+};
+
+// Turn a voice recording into text (POST /api/transcribe); the blob's type is sent as Content-Type
+export const transcribeRecording = async (recording: Blob, signal?: AbortSignal): Promise<string> => {
+  const response = await fetch(`${API_BASE_URL}/api/transcribe`, {
+    method: 'POST',
+    headers: { 'Content-Type': recording.type.split(';')[0] || 'audio/webm' },
+    body: recording,
+    signal,
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.details || data.error || 'Failed to transcribe the recording');
+  }
+  return data.text;
+};
@@ -0,0 +1,115 @@
+// Final HTML of a design: its source code with the user's style edits baked in
+//
+// Style edits become CSS rules in one generated <style data-prism-edits> block after the page's own
+// styles, so the markup stays as generated and the edits end up readable in an exported
+// stylesheet. Text edits can't be expressed in CSS and replace the element's text instead. A block
+// from an earlier pass (a revision the edits were baked into) is extended rather than duplicated.
+// This is what the previews, downloads, copies, new tabs, thumbnails, refinements, published sites
+// and share links get; edits made in edit mode show up in its preview right away through the
+// preview agent (lib/previewAgent.ts).
+//
+// Rules target an edit's element by its data-prism-id (lib/elementIdentity.ts), so those ids stay
+// in the code; stripElementIds removes the ones no rule needs from HTML that leaves Prism (and
+// server/exportHtml.js from the revisions the server shares).
+
+import { ELEMENT_ID_ATTRIBUTE, resolveEdit } from './elementIdentity';
+import type { StyleEdit } from './projectsApi';
+
+const EDITS_STYLE_ATTRIBUTE = 'data-prism-edits';
+const EDITS_STYLE_HEADER = '/* Style edits made in Prism */';
+const PROPERTY_PATTERN = /^(--[\w-]+|-?[a-z][a-z-]*)$/;
+const ELEMENT_ID_PATTERN = /^[\w-]+$/;
+
+// Whether the edit can become a CSS rule without breaking out of the declaration or the style block
+const isSafeDeclaration = (edit: StyleEdit) =>
+  PROPERTY_PATTERN.test(edit.property) && !/[{}<]/.test(edit.value) && !edit.selector.includes('<') &&
+  (edit.elementId === undefined || ELEMENT_ID_PATTERN.test(edit.elementId));
+
+// The rule's selector: the element's id, which it gets back here if only the fallback path found it.
+// Older edits keep their selector.
+const ruleSelector = (doc: Document, edit: StyleEdit) => {
+  const [element] = resolveEdit(doc.body, edit);
+  // Elements that were since removed would only leave clutter
+  if (!element) return null;
+  if (!edit.elementId) return edit.selector;
+  element.setAttribute(ELEMENT_ID_ATTRIBUTE, edit.elementId);
+  return `[${ELEMENT_ID_ATTRIBUTE}="${edit.elementId}"]`;
+};
+
+// One rule per run of edits to the same element. Keeping the edits' order means that between
+// equally specific selectors the newer edit wins, as it does in the preview.
+const buildRules = (doc: Document, edits: StyleEdit[]) => {
+  const rules: { selector: string; declarations: string[] }[] = [];
+  edits.forEach(edit => {
+    if (!isSafeDeclaration(edit)) {
+      console.warn('⚠️ [Document Transform] Skipping edit that is not a valid declaration:', edit);
+      return;
+    }
+    const selector = ruleSelector(doc, edit);
+    if (!selector) return;
+    const declaration = `  ${edit.property}: ${edit.value.replace(/\s*!important\s*$/i, '').trim()} !important;`;
+    const last = rules[rules.length - 1];
+    if (last?.selector === selector) {
+      last.declarations.push(declaration);
+    } else {
+      rules.push({ selector, declarations: [declaration] });
+    }
+  });
+  return rules.map(({ selector, declarations }) => `${selector} {\n${declarations.join('\n')}\n}`);
+};
+
+// The generated block, created after the last style element so the edits win the cascade
+const editsStyleElement = (doc: Document) => {
+  const existing = doc.querySelector(`style[${EDITS_STYLE_ATTRIBUTE}]`);
+  if (existing) return existing;
+
+  const style = doc.createElement('style');
+  style.setAttribute(EDITS_STYLE_ATTRIBUTE, '');
+  style.textContent = EDITS_STYLE_HEADER;
+  const styles = doc.querySelectorAll('style');
+  const lastStyle = styles[styles.length - 1];
+  if (lastStyle) {
+    lastStyle.after(style);
+  } else {
+    doc.head.appendChild(style);
+  }
+  return style;
+};
+
+const serialize = (doc: Document) => {
+  const doctype = doc.doctype ? `<!DOCTYPE ${doc.doctype.name}>\n` : '';
+  return doctype + doc.documentElement.outerHTML;
+};
+
+export const renderFinalHtml = (html: string, edits: StyleEdit[]): string => {
+  if (edits.length === 0) return html;
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+
+  edits.filter(edit => edit.property === 'textContent').forEach(edit => {
+    resolveEdit(doc.body, edit).forEach(element => {
+      element.textContent = edit.value;
+    });
+  });
+
+  const rules = buildRules(doc, edits.filter(edit => edit.property !== 'textContent'));
+  if (rules.length > 0) {
+    const style = editsStyleElement(doc);
+    style.textContent = `${style.textContent}\n${rules.join('\n')}\n`;
+  }
+
+  return serialize(doc);
+};
+
+// HTML for downloads, published sites and share links: element ids only where an edit rule uses them
+export const stripElementIds = (html: string): string => {
+  if (!html.includes(ELEMENT_ID_ATTRIBUTE)) return html;
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const rules = doc.querySelector(`style[${EDITS_STYLE_ATTRIBUTE}]`)?.textContent || '';
+  const used = new Set([...rules.matchAll(/data-prism-id="([\w-]+)"/g)].map(match => match[1]));
+  doc.querySelectorAll(`[${ELEMENT_ID_ATTRIBUTE}]`).forEach(element => {
+    if (!used.has(element.getAttribute(ELEMENT_ID_ATTRIBUTE) || '')) {
+      element.removeAttribute(ELEMENT_ID_ATTRIBUTE);
+    }
+  });
+  return serialize(doc);
+};
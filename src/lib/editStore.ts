@@ -0,0 +1,255 @@
+// Style edits made in the workspace's edit mode - the only place they are kept
+//
+// Each project has one list of edits: at most one per element + property, oldest first, so
+// applying them in order gives what the user last chose. The list is saved to the project's
+// `edits` field on the server (debounced); lib/documentTransform.ts bakes them into the HTML the
+// preview loads and the HTML that leaves it. When edits are baked into the code for good (a
+// refinement, a restore) the list is cleared. Edits find their element through
+// lib/elementIdentity.ts.
+//
+// Every change to the list is also an undoable command, saved with the edits as `editHistory` so
+// it survives reopening the project. Changes made in one event handler (a preset setting several
+// properties) are one command, and repeated changes of one property in quick succession (a slider
+// drag) are merged into one.
+//
+// Older builds kept edits in localStorage under `edits-<id>` (live preview) and
+// `prism-edits-<id>` (simple-edit-system); those are merged in the first time a project's edits
+// are read and removed once the server has them.
+
+import type { EditTarget } from './elementIdentity';
+import { updateProject, type EditChange, type EditCommand, type EditHistory, type SavedDesign, type StyleEdit } from './projectsApi';
+
+type EditedProject = Pick<SavedDesign, 'id' | 'edits' | 'editHistory'>;
+
+interface ProjectEdits {
+  edits: StyleEdit[];
+  history: EditHistory;
+  openCommand: EditCommand | null; // Command of the event handler still running
+  saveTimer: ReturnType<typeof setTimeout> | null;
+  unsaved: boolean;
+  legacyKeys: string[]; // Removed after the next successful save
+}
+
+const SAVE_DELAY_MS = 300;
+const RETRY_DELAY_MS = 5000;
+const COALESCE_MS = 1000;
+const MAX_HISTORY = 100;
+const legacyStorageKeys = (projectId: string) => [`edits-${projectId}`, `prism-edits-${projectId}`];
+
+const projects = new Map<string, ProjectEdits>();
+
+// Components showing the history subscribe to changes (useSyncExternalStore)
+const listeners = new Set<() => void>();
+let version = 0;
+
+const notify = () => {
+  version++;
+  listeners.forEach(listener => listener());
+};
+
+export const subscribeToEdits = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const editsVersion = () => version;
+
+const editKey = (edit: StyleEdit) => `${edit.elementId || edit.selector}\n${edit.property}`;
+
+// One edit per element (or legacy selector) + property, the newest wins; ordered by when they were made
+export const mergeEdits = (...lists: StyleEdit[][]): StyleEdit[] => {
+  const latest = new Map<string, StyleEdit>();
+  lists.flat().forEach(edit => {
+    const key = editKey(edit);
+    const existing = latest.get(key);
+    if (!existing || existing.timestamp <= edit.timestamp) {
+      latest.set(key, edit);
+    }
+  });
+  return [...latest.values()].sort((a, b) => a.timestamp - b.timestamp);
+};
+
+const readLegacyEdits = (key: string): StyleEdit[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(key) || '[]');
+    return Array.isArray(parsed)
+      ? parsed
+        .filter(edit => typeof edit?.selector === 'string' && typeof edit?.property === 'string' && typeof edit?.value === 'string')
+        .map(edit => ({ selector: edit.selector, property: edit.property, value: edit.value, timestamp: Number(edit.timestamp) || 0 }))
+      : [];
+  } catch {
+    console.warn('⚠️ [Edit Store] Ignoring unreadable legacy edits:', key);
+    return [];
+  }
+};
+
+const save = async (projectId: string, entry: ProjectEdits, options: { keepalive?: boolean } = {}) => {
+  if (entry.saveTimer) {
+    clearTimeout(entry.saveTimer);
+    entry.saveTimer = null;
+  }
+  if (!entry.unsaved) return;
+  entry.unsaved = false;
+  try {
+    await updateProject(projectId, { edits: entry.edits, editHistory: entry.history }, options);
+    entry.legacyKeys.forEach(key => localStorage.removeItem(key));
+    entry.legacyKeys = [];
+  } catch (error) {
+    // E.g. a new project the server does not have yet - retry unless the page is going away
+    entry.unsaved = true;
+    console.error('❌ [Edit Store] Failed to save edits of project:', projectId, error);
+    if (!options.keepalive && !entry.saveTimer) {
+      entry.saveTimer = setTimeout(() => save(projectId, entry), RETRY_DELAY_MS);
+    }
+  }
+};
+
+const scheduleSave = (projectId: string, entry: ProjectEdits) => {
+  entry.unsaved = true;
+  if (entry.saveTimer) clearTimeout(entry.saveTimer);
+  entry.saveTimer = setTimeout(() => save(projectId, entry), SAVE_DELAY_MS);
+};
+
+const entryFor = (project: EditedProject): ProjectEdits => {
+  const existing = projects.get(project.id);
+  if (existing) return existing;
+
+  const legacyKeys = legacyStorageKeys(project.id).filter(key => localStorage.getItem(key) !== null);
+  const legacyEdits = legacyKeys.flatMap(readLegacyEdits);
+  const entry: ProjectEdits = {
+    edits: mergeEdits(legacyEdits, project.edits || []),
+    history: {
+      undo: project.editHistory?.undo || [],
+      redo: project.editHistory?.redo || [],
+    },
+    openCommand: null,
+    saveTimer: null,
+    unsaved: false,
+    legacyKeys,
+  };
+  projects.set(project.id, entry);
+  if (legacyKeys.length > 0) {
+    console.log(`🎨 [Edit Store] Migrating ${legacyEdits.length} legacy edits of project`, project.id);
+    scheduleSave(project.id, entry);
+  }
+  return entry;
+};
+
+// The project's pending edits; the first call for a project loads them from it (and legacy storage)
+export const getEdits = (project: EditedProject): StyleEdit[] => entryFor(project).edits;
+
+// The project's undo and redo steps
+export const getEditHistory = (project: EditedProject): EditHistory => entryFor(project).history;
+
+// Put `to` where the edit for the same element and property is (null: remove it)
+const replaceEdit = (entry: ProjectEdits, key: string, to: StyleEdit | null) => {
+  const others = entry.edits.filter(edit => editKey(edit) !== key);
+  entry.edits = to ? mergeEdits(others, [to]) : others;
+};
+
+const changeKey = (change: EditChange) => editKey((change.after || change.before) as StyleEdit);
+
+const record = (entry: ProjectEdits, change: EditChange) => {
+  const { history } = entry;
+  const now = Date.now();
+  const last = history.undo[history.undo.length - 1];
+  const open = entry.openCommand;
+  history.redo = [];
+
+  if (open) {
+    const same = open.changes.find(existing => changeKey(existing) === changeKey(change));
+    if (same) {
+      same.after = change.after;
+    } else {
+      open.changes.push(change);
+    }
+    open.timestamp = now;
+  } else if (last?.changes.length === 1 && changeKey(last.changes[0]) === changeKey(change) && now - last.timestamp < COALESCE_MS) {
+    last.changes[0] = { before: last.changes[0].before, after: change.after };
+    last.timestamp = now;
+  } else {
+    const command: EditCommand = { changes: [change], timestamp: now };
+    history.undo = [...history.undo, command].slice(-MAX_HISTORY);
+    entry.openCommand = command;
+    queueMicrotask(() => {
+      entry.openCommand = null;
+    });
+  }
+};
+
+// Record an edit the user just made, replacing an earlier one for the same element and property
+export const addEdit = (project: EditedProject, target: EditTarget, property: string, value: string): StyleEdit[] => {
+  const entry = entryFor(project);
+  const edit: StyleEdit = { ...target, property, value, timestamp: Date.now() };
+  const key = editKey(edit);
+  record(entry, { before: entry.edits.find(existing => editKey(existing) === key) || null, after: edit });
+  replaceEdit(entry, key, edit);
+  scheduleSave(project.id, entry);
+  notify();
+  return entry.edits;
+};
+
+// Drop some pending edits, e.g. the ones whose element is gone from the design
+export const removeEdits = (project: EditedProject, edits: StyleEdit[]) => {
+  const entry = entryFor(project);
+  const removed = entry.edits.filter(edit => edits.includes(edit));
+  if (removed.length === 0) return;
+  removed.forEach(edit => {
+    record(entry, { before: edit, after: null });
+    replaceEdit(entry, editKey(edit), null);
+  });
+  scheduleSave(project.id, entry);
+  notify();
+};
+
+// Forget the pending edits and their history once they are baked into the code for good
+export const clearEdits = (project: EditedProject) => {
+  const entry = entryFor(project);
+  const { undo, redo } = entry.history;
+  if (entry.edits.length === 0 && undo.length === 0 && redo.length === 0 && entry.legacyKeys.length === 0) return;
+  entry.edits = [];
+  entry.history = { undo: [], redo: [] };
+  entry.openCommand = null;
+  scheduleSave(project.id, entry);
+  notify();
+};
+
+// Take back the last command; returns it, or null when there is nothing to undo
+export const undoEdit = (project: EditedProject): EditCommand | null => {
+  const entry = entryFor(project);
+  const command = entry.history.undo[entry.history.undo.length - 1];
+  if (!command) return null;
+  [...command.changes].reverse().forEach(change => replaceEdit(entry, changeKey(change), change.before));
+  entry.history = { undo: entry.history.undo.slice(0, -1), redo: [...entry.history.redo, command] };
+  entry.openCommand = null;
+  scheduleSave(project.id, entry);
+  notify();
+  return command;
+};
+
+// Make the last undone command again; returns it, or null when there is nothing to redo
+export const redoEdit = (project: EditedProject): EditCommand | null => {
+  const entry = entryFor(project);
+  const command = entry.history.redo[entry.history.redo.length - 1];
+  if (!command) return null;
+  command.changes.forEach(change => replaceEdit(entry, changeKey(change), change.after));
+  entry.history = { undo: [...entry.history.undo, command], redo: entry.history.redo.slice(0, -1) };
+  entry.openCommand = null;
+  scheduleSave(project.id, entry);
+  notify();
+  return command;
+};
+
+// Short description of a command for the undo/redo buttons, e.g. "color change"
+export const describeEditCommand = (command: EditCommand) => {
+  if (command.changes.length > 1) return `${command.changes.length} changes`;
+  const edit = command.changes[0].after || command.changes[0].before;
+  if (!edit) return 'change';
+  return edit.property === 'textContent' ? 'text edit' : `${edit.property} change`;
+};
+
+// Save whatever is still waiting for the debounce; `keepalive` while the page unloads
+export const flushEdits = (options: { keepalive?: boolean } = {}) =>
+  Promise.all([...projects].map(([projectId, entry]) => save(projectId, entry, options)));
@@ -0,0 +1,102 @@
+// Stable identity for the elements of a design, so style edits keep their element
+//
+// CSS selectors made from an element's classes match every element that shares them, and
+// nth-of-type paths point at another node after any structural change. Instead every element in
+// a design's body carries a `data-prism-id` attribute in the code itself (assignElementIds), and an
+// edit records the id of its element. The structural path from the body is recorded next to it:
+// when a change to the code dropped the id (a refinement that rewrote the element, a code edit),
+// the path finds the element again as long as it names exactly one element that has no identity of
+// its own. Edits from older builds only have a selector and keep applying to whatever it matches.
+
+import type { StyleEdit } from './projectsApi';
+
+export const ELEMENT_ID_ATTRIBUTE = 'data-prism-id';
+
+// What an edit records about its element
+export interface EditTarget {
+  elementId?: string;
+  selector: string; // Structural path from the content root, e.g. `:scope > main:nth-of-type(1) > h1:nth-of-type(1)`
+}
+
+// Elements that are not part of the rendered page, and the insides of inline SVG icons
+const SKIPPED_ELEMENTS = 'script, style, template, noscript, link, meta';
+
+const newElementId = (taken: Set<string>) => {
+  let id: string;
+  do {
+    id = `e${Math.random().toString(36).slice(2, 9)}`;
+  } while (taken.has(id));
+  taken.add(id);
+  return id;
+};
+
+const identifiableElements = (root: Element) =>
+  [...root.querySelectorAll('*')].filter(element => !element.matches(SKIPPED_ELEMENTS) && !element.parentElement?.closest('svg'));
+
+const querySelectorAllSafe = (root: Element, selector: string): Element[] => {
+  try {
+    return [...root.querySelectorAll(selector)];
+  } catch {
+    console.warn('⚠️ [Element Identity] Skipping edit with invalid selector:', selector);
+    return [];
+  }
+};
+
+// Tag and position among same-tag siblings for every step from `root` (the page's <body>) down to the
+// element. Self-contained: the preview agent (lib/previewAgent.ts) runs it inside the preview frame.
+export const elementPath = (element: Element, root: Element): string => {
+  const steps: string[] = [];
+  for (let current: Element | null = element; current && current !== root; current = current.parentElement) {
+    const { tagName } = current;
+    const sameTag = current.parentElement
+      ? [...current.parentElement.children].filter(sibling => sibling.tagName === tagName)
+      : [current];
+    steps.unshift(`${tagName.toLowerCase()}:nth-of-type(${sameTag.indexOf(current) + 1})`);
+  }
+  return [':scope', ...steps].join(' > ');
+};
+
+// The elements under `root` an edit applies to; none when its element is gone
+export const resolveEdit = (root: Element, edit: StyleEdit): Element[] => {
+  if (!edit.elementId) return querySelectorAllSafe(root, edit.selector);
+
+  const byId = root.querySelector(`[${ELEMENT_ID_ATTRIBUTE}="${CSS.escape(edit.elementId)}"]`);
+  if (byId) return [byId];
+  const matched = querySelectorAllSafe(root, edit.selector);
+  return matched.length === 1 && !matched[0].hasAttribute(ELEMENT_ID_ATTRIBUTE) ? matched : [];
+};
+
+// Give every element of the body an id. Elements that lost the id a pending edit refers to get it
+// back first (see resolveEdit). Returns `html` itself when no element was missing one.
+export const assignElementIds = (html: string, edits: StyleEdit[] = []): string => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const elements = identifiableElements(doc.body);
+  const missing = elements.filter(element => !element.hasAttribute(ELEMENT_ID_ATTRIBUTE));
+  if (missing.length === 0) return html;
+
+  let reattached = 0;
+  edits.forEach(edit => {
+    if (!edit.elementId) return;
+    const [element] = resolveEdit(doc.body, edit);
+    if (element && !element.hasAttribute(ELEMENT_ID_ATTRIBUTE)) {
+      element.setAttribute(ELEMENT_ID_ATTRIBUTE, edit.elementId);
+      reattached++;
+    }
+  });
+
+  const taken = new Set(elements.flatMap(element => element.getAttribute(ELEMENT_ID_ATTRIBUTE) || []));
+  missing
+    .filter(element => !element.hasAttribute(ELEMENT_ID_ATTRIBUTE))
+    .forEach(element => element.setAttribute(ELEMENT_ID_ATTRIBUTE, newElementId(taken)));
+  console.log(`🏷️ [Element Identity] Assigned ids to ${missing.length} elements (${reattached} matched to pending edits)`);
+
+  const doctype = doc.doctype ? `<!DOCTYPE ${doc.doctype.name}>\n` : '';
+  return doctype + doc.documentElement.outerHTML;
+};
+
+// Pending edits whose element can no longer be found in `html`
+export const findUnresolvedEdits = (html: string, edits: StyleEdit[]): StyleEdit[] => {
+  if (edits.length === 0) return [];
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  return edits.filter(edit => resolveEdit(doc.body, edit).length === 0);
+};
@@ -0,0 +1,76 @@
+// Client for the generation job routes of the Prism server (/api/jobs)
+// A job keeps running on the server when the page reloads; the id of the job this browser is
+// waiting for is kept in localStorage so the workspace can resume following it.
+
+import { API_BASE_URL, apiRequest } from './api';
+import { readGenerationEvents } from './generationStream';
+import type { GenerationDone, GenerationProgress, GenerationStreamHandlers, GenerationUsage } from './generationStream';
+
+export type GenerationJobStatus = 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface GenerationJob {
+  id: string;
+  kind: 'generate' | 'variant';
+  projectId: string | null;
+  model: string;
+  prompt: string;
+  imageCount: number; // Reference images sent with the prompt - the images themselves are not kept
+  status: GenerationJobStatus;
+  progress: GenerationProgress & { continuations: number };
+  partialCode: string;
+  usage: (GenerationUsage & { model: string }) | null;
+  result: GenerationDone | null;
+  error: { error: string; details?: string } | null;
+  createdAt: number;
+  updatedAt: number;
+  finishedAt: number | null;
+}
+
+// The job the workspace is showing, with what is needed to finish it after a reload
+export interface ActiveGenerationJob {
+  jobId: string;
+  projectId: string;
+  prompt: string; // What the user typed, before enhancePromptWithPremiumDesignV3()
+}
+
+const ACTIVE_JOB_STORAGE_KEY = 'prism-active-job';
+
+// Same body as POST /api/generate
+export const createGenerationJob = (body: Record<string, unknown>, signal?: AbortSignal): Promise<GenerationJob> =>
+  apiRequest<GenerationJob>('/api/jobs', { method: 'POST', body: JSON.stringify(body), signal });
+
+export const fetchGenerationJob = (id: string): Promise<GenerationJob> =>
+  apiRequest<GenerationJob>(`/api/jobs/${id}`);
+
+export const cancelGenerationJob = async (id: string): Promise<void> => {
+  await apiRequest(`/api/jobs/${id}/cancel`, { method: 'POST' });
+};
+
+// Resolves with the result once the job is done, also when it already finished earlier.
+// Aborting `signal` only stops following - use cancelGenerationJob() to stop the job itself.
+export const followGenerationJob = async (
+  id: string,
+  handlers: GenerationStreamHandlers = {},
+  signal?: AbortSignal
+): Promise<GenerationDone> => {
+  const response = await fetch(`${API_BASE_URL}/api/jobs/${id}/events`, { signal });
+  return readGenerationEvents(response, handlers);
+};
+
+export const rememberActiveJob = (job: ActiveGenerationJob) => {
+  localStorage.setItem(ACTIVE_JOB_STORAGE_KEY, JSON.stringify(job));
+};
+
+export const loadActiveJob = (): ActiveGenerationJob | null => {
+  try {
+    return JSON.parse(localStorage.getItem(ACTIVE_JOB_STORAGE_KEY) || 'null');
+  } catch {
+    return null;
+  }
+};
+
+export const forgetActiveJob = (jobId: string) => {
+  if (loadActiveJob()?.jobId === jobId) {
+    localStorage.removeItem(ACTIVE_JOB_STORAGE_KEY);
+  }
+};
@@ -0,0 +1,137 @@
+// Client for the streaming mode of POST /api/generate
+// The server answers with Server-Sent Events (progress, html, continuation, usage, done, error;
+// job streams can also end with cancelled),
+// so we read the response body directly instead of using EventSource (GET only).
+
+import { API_BASE_URL } from './api';
+
+export interface GenerationProgress {
+  outputChars: number;
+  estimatedTokens: number;
+  sections: string[];
+}
+
+export interface GenerationUsage {
+  input_tokens: number;
+  output_tokens: number;
+  estimatedCost: number;
+}
+
+export interface GenerationDone {
+  success: boolean;
+  code: string;
+  prompt: string;
+  continuations: number; // Follow-up requests needed because the output was cut off
+  truncated: boolean; // Still unfinished after the last continuation
+  fixes: string[]; // Repairs the server applied to the generated HTML
+}
+
+export interface GenerationStreamHandlers {
+  onProgress?: (progress: GenerationProgress) => void;
+  onHtml?: (partialCode: string) => void;
+  onContinuation?: (continuations: number) => void;
+  onUsage?: (usage: GenerationUsage) => void;
+}
+
+// A generation job was cancelled on the server, possibly from another tab
+export class GenerationCancelledError extends Error {
+  constructor() {
+    super('Generation was cancelled');
+    this.name = 'GenerationCancelledError';
+  }
+}
+
+interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+const parseEvent = (block: string): ServerSentEvent | null => {
+  let event = 'message';
+  const dataLines: string[] = [];
+  block.split('\n').forEach(line => {
+    if (line.startsWith('event:')) {
+      event = line.slice('event:'.length).trim();
+    } else if (line.startsWith('data:')) {
+      dataLines.push(line.slice('data:'.length).trim());
+    }
+  });
+  return dataLines.length > 0 ? { event, data: dataLines.join('\n') } : null;
+};
+
+// Read a stream of generation events until `done`; shared with the job client (generationJobs.ts)
+export const readGenerationEvents = async (
+  response: Response,
+  handlers: GenerationStreamHandlers = {}
+): Promise<GenerationDone> => {
+  // Validation errors are still plain JSON responses
+  if (!response.ok || !response.body) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to generate interface');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let result: GenerationDone | null = null;
+
+  // Returns the final result once the `done` event arrives
+  const handleEvent = ({ event, data }: ServerSentEvent): GenerationDone | null => {
+    const payload = JSON.parse(data);
+    switch (event) {
+      case 'progress':
+        handlers.onProgress?.(payload);
+        break;
+      case 'html':
+        handlers.onHtml?.(payload.code);
+        break;
+      case 'continuation':
+        handlers.onContinuation?.(payload.continuations);
+        break;
+      case 'usage':
+        handlers.onUsage?.(payload);
+        break;
+      case 'done':
+        return payload;
+      case 'cancelled':
+        throw new GenerationCancelledError();
+      case 'error':
+        throw new Error(payload.details || payload.error || 'Failed to generate interface');
+    }
+    return null;
+  };
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const parsed = parseEvent(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      if (parsed) result = handleEvent(parsed) || result;
+      boundary = buffer.indexOf('\n\n');
+    }
+  }
+
+  if (!result) {
+    throw new Error('Generation stream ended before completion');
+  }
+  return result;
+};
+
+// Aborting `signal` closes the connection, which makes the server cancel the model call
+export const streamGeneration = async (
+  body: Record<string, unknown>,
+  handlers: GenerationStreamHandlers = {},
+  signal?: AbortSignal
+): Promise<GenerationDone> => {
+  const response = await fetch(`${API_BASE_URL}/api/generate`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...body, stream: true }),
+    signal,
+  });
+  return readGenerationEvents(response, handlers);
+};
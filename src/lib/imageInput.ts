@@ -0,0 +1,82 @@
+// Reference images for generations (screenshot-to-code, wireframes, mood boards).
+// Uploads are downscaled in the browser before they are sent as base64 with POST /api/generate
+// or /api/jobs (see server/images.js for the checks on the other side).
+
+export interface PromptImage {
+  name: string;
+  mediaType: 'image/png' | 'image/jpeg';
+  data: string; // base64, without the data: URL prefix
+  width: number;
+  height: number;
+}
+
+export const ACCEPTED_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/gif'];
+const MAX_UPLOAD_BYTES = 20 * 1024 * 1024;
+// Longest edge the model looks at - larger images are resized by the API anyway, at the same cost
+const MAX_EDGE = 1568;
+// Screenshots stay PNG so small text stays sharp, unless that ends up larger than this
+const MAX_PNG_BYTES = 1.5 * 1024 * 1024;
+const JPEG_QUALITY = 0.85;
+// Server limit per image (decoded)
+const MAX_ENCODED_BYTES = 5 * 1024 * 1024;
+
+const base64Bytes = (data: string) => Math.floor((data.length * 3) / 4);
+
+const loadImage = (file: File): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error(`Could not read ${file.name} as an image`));
+    };
+    image.src = url;
+  });
+
+// Validate an uploaded file and turn it into an image the server accepts
+export const prepareImage = async (file: File): Promise<PromptImage> => {
+  if (!ACCEPTED_IMAGE_TYPES.includes(file.type)) {
+    throw new Error(`${file.name} is not a PNG, JPEG, WebP or GIF image`);
+  }
+  if (file.size > MAX_UPLOAD_BYTES) {
+    throw new Error(`${file.name} is larger than ${MAX_UPLOAD_BYTES / 1024 / 1024} MB`);
+  }
+
+  const image = await loadImage(file);
+  const scale = Math.min(1, MAX_EDGE / Math.max(image.naturalWidth, image.naturalHeight));
+  const width = Math.max(1, Math.round(image.naturalWidth * scale));
+  const height = Math.max(1, Math.round(image.naturalHeight * scale));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Could not process the image in this browser');
+  }
+  // JPEG has no transparency - put transparent areas on white rather than black
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, width, height);
+  context.drawImage(image, 0, 0, width, height);
+
+  let mediaType: PromptImage['mediaType'] = 'image/png';
+  let data = canvas.toDataURL(mediaType).split(',')[1];
+  if (base64Bytes(data) > MAX_PNG_BYTES) {
+    mediaType = 'image/jpeg';
+    data = canvas.toDataURL(mediaType, JPEG_QUALITY).split(',')[1];
+  }
+  if (base64Bytes(data) > MAX_ENCODED_BYTES) {
+    throw new Error(`${file.name} is still too large after resizing`);
+  }
+
+  return { name: file.name, mediaType, data, width, height };
+};
+
+export const imageDataUrl = (image: PromptImage) => `data:${image.mediaType};base64,${image.data}`;
+
+// What the request body carries - the name and size are only for the UI
+export const toImagePayload = ({ mediaType, data }: PromptImage) => ({ mediaType, data });
@@ -0,0 +1,253 @@
+// The agent injected into the edit-mode preview frame
+//
+// It runs inside the previewed page, ahead of the page's own scripts: it outlines the element under
+// the pointer, reports the clicked element to the workspace, edits text in place on double-click
+// and shows the edits the workspace sends (see lib/previewProtocol.ts). Clicks select instead of
+// reaching the page, so links and buttons don't navigate while editing. The page's console output
+// and errors are forwarded to the workspace's console panel.
+//
+// The page's scripts run too, isolated in the sandboxed frame. Paused, the frame's content security
+// policy only lets the agent run, so nothing moves while elements are selected.
+//
+// previewAgent is stringified into the page, so it can't use anything from outside its own body:
+// the configuration and elementPath (self-contained too) are passed in.
+
+import { ELEMENT_ID_ATTRIBUTE, elementPath, type EditTarget } from './elementIdentity';
+import { PREVIEW_CHANNEL, SNAPSHOT_STYLES, type AgentMessage, type ElementSnapshot, type HostMessage, type PreviewEnvelope } from './previewProtocol';
+
+interface AgentConfig {
+  channel: string;
+  idAttribute: string;
+  snapshotStyles: string[];
+}
+
+const previewAgent = ({ channel, idAttribute, snapshotStyles }: AgentConfig, pathOf: typeof elementPath) => {
+  const TEXT_TAGS = ['H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'P', 'SPAN', 'DIV', 'A', 'BUTTON', 'LABEL'];
+  let hovered: Element | null = null;
+  let selected: Element | null = null;
+  let editing: HTMLElement | null = null;
+
+  const style = document.createElement('style');
+  style.setAttribute('data-prism-agent', '');
+  style.textContent = `
+    body *:not([data-prism-editing]) { cursor: pointer !important; }
+    [data-prism-hover]:not([data-prism-selected]) { outline: 1px solid rgba(59, 130, 246, 0.5) !important; outline-offset: 1px !important; }
+    [data-prism-selected] { outline: 3px solid #DC2626 !important; outline-offset: 2px !important; }
+    [data-prism-editing] { outline: 2px solid #3B82F6 !important; outline-offset: 2px !important; cursor: text !important; }
+  `;
+  document.head.appendChild(style);
+
+  const send = (message: AgentMessage) => window.parent.postMessage({ ...message, channel }, '*');
+  send({ type: 'ready' });
+
+  const describe = (value: unknown): string => {
+    if (typeof value === 'string') return value;
+    if (value instanceof Error) return value.stack || `${value.name}: ${value.message}`;
+    try {
+      return JSON.stringify(value) ?? String(value);
+    } catch {
+      return String(value);
+    }
+  };
+
+  (['log', 'info', 'warn', 'error'] as const).forEach(level => {
+    const original = console[level].bind(console);
+    console[level] = (...args: unknown[]) => {
+      original(...args);
+      send({ type: 'console', level, text: args.map(describe).join(' ') });
+    };
+  });
+
+  // Uncaught errors, and (capturing) elements whose resource failed to load. Line numbers of inline
+  // scripts would point into the preview document rather than the design's code, so only external
+  // scripts get a source.
+  window.addEventListener('error', event => {
+    if (event instanceof ErrorEvent) {
+      const source = /^https?:/.test(event.filename) ? `${event.filename}:${event.lineno}` : undefined;
+      send({ type: 'console', level: 'error', text: event.error instanceof Error ? describe(event.error) : event.message, source });
+    } else if (event.target instanceof Element) {
+      const url = event.target.getAttribute('src') || event.target.getAttribute('href') || '';
+      send({ type: 'console', level: 'error', text: `Failed to load ${event.target.tagName.toLowerCase()} ${url}`.trim() });
+    }
+  }, true);
+
+  window.addEventListener('unhandledrejection', event => {
+    send({ type: 'console', level: 'error', text: `Unhandled promise rejection: ${describe(event.reason)}` });
+  });
+
+  // Inline icons are selected as a whole; the page itself (body and html) isn't selectable
+  const selectable = (target: EventTarget | null): Element | null => {
+    if (!(target instanceof Element)) return null;
+    const element = target.closest('svg') || target;
+    return document.body.contains(element) && element !== document.body ? element : null;
+  };
+
+  const targetFor = (element: Element): EditTarget => ({
+    elementId: element.getAttribute(idAttribute) || undefined,
+    selector: pathOf(element, document.body),
+  });
+
+  // Same rules as resolveEdit in lib/elementIdentity.ts
+  const resolve = (target: EditTarget): Element[] => {
+    const bySelector = () => {
+      try {
+        return [...document.body.querySelectorAll(target.selector)];
+      } catch {
+        return [];
+      }
+    };
+    if (!target.elementId) return bySelector();
+    const byId = document.body.querySelector(`[${idAttribute}="${CSS.escape(target.elementId)}"]`);
+    if (byId) return [byId];
+    const matched = bySelector();
+    return matched.length === 1 && !matched[0].hasAttribute(idAttribute) ? matched : [];
+  };
+
+  const snapshot = (element: Element): ElementSnapshot => {
+    const computed = getComputedStyle(element);
+    const bodyBackground = getComputedStyle(document.body).backgroundColor;
+    return {
+      target: targetFor(element),
+      tagName: element.tagName,
+      className: element.getAttribute('class') || '',
+      id: element.id,
+      parentTagName: element.parentElement?.tagName || '',
+      text: element.children.length === 0 && element.textContent ? element.textContent : null,
+      styles: Object.fromEntries(snapshotStyles.map(property => [property, computed.getPropertyValue(property).trim()])),
+      pageBackground: bodyBackground === 'rgba(0, 0, 0, 0)' ? getComputedStyle(document.documentElement).backgroundColor : bodyBackground,
+    };
+  };
+
+  const select = (element: Element | null) => {
+    selected?.removeAttribute('data-prism-selected');
+    selected = element;
+    element?.setAttribute('data-prism-selected', '');
+  };
+
+  const isTextElement = (element: Element): element is HTMLElement =>
+    element instanceof HTMLElement && TEXT_TAGS.includes(element.tagName) &&
+    element.children.length === 0 && Boolean(element.textContent?.trim());
+
+  const startTextEdit = (element: HTMLElement) => {
+    const originalText = element.textContent || '';
+    const listeners = new AbortController();
+    editing = element;
+    element.contentEditable = 'true';
+    element.setAttribute('data-prism-editing', '');
+
+    // Once: leaving the element after Enter blurs it too
+    const finish = (save: boolean) => {
+      if (editing !== element) return;
+      editing = null;
+      listeners.abort();
+      element.removeAttribute('contenteditable');
+      element.removeAttribute('data-prism-editing');
+      const text = save ? element.textContent || '' : originalText;
+      element.textContent = text;
+      if (text === originalText) return;
+      send({ type: 'text-edit', target: targetFor(element), text });
+      if (element === selected) send({ type: 'select', element: snapshot(element) });
+    };
+
+    element.addEventListener('blur', () => finish(true), { signal: listeners.signal });
+    element.addEventListener('keydown', event => {
+      if (event.key === 'Enter' && !event.shiftKey) {
+        event.preventDefault();
+        finish(true);
+      } else if (event.key === 'Escape') {
+        event.preventDefault();
+        finish(false);
+      }
+    }, { signal: listeners.signal });
+
+    element.focus();
+    const range = document.createRange();
+    range.selectNodeContents(element);
+    getSelection()?.removeAllRanges();
+    getSelection()?.addRange(range);
+  };
+
+  // Capturing on the window comes before any handler of the page
+  window.addEventListener('mouseover', event => {
+    const element = selectable(event.target);
+    if (element === hovered) return;
+    hovered?.removeAttribute('data-prism-hover');
+    hovered = element;
+    element?.setAttribute('data-prism-hover', '');
+  }, true);
+
+  document.documentElement.addEventListener('mouseleave', () => {
+    hovered?.removeAttribute('data-prism-hover');
+    hovered = null;
+  });
+
+  window.addEventListener('click', event => {
+    if (editing && event.target instanceof Node && editing.contains(event.target)) return;
+    event.preventDefault();
+    event.stopImmediatePropagation();
+    const element = selectable(event.target);
+    if (!element) return;
+    select(element);
+    send({ type: 'select', element: snapshot(element) });
+  }, true);
+
+  window.addEventListener('dblclick', event => {
+    const element = selectable(event.target);
+    if (!element || !isTextElement(element) || element === editing) return;
+    event.preventDefault();
+    event.stopImmediatePropagation();
+    startTextEdit(element);
+  }, true);
+
+  // Undo and redo belong to the workspace, which doesn't see keys pressed in the frame
+  window.addEventListener('keydown', event => {
+    if (editing || !(event.ctrlKey || event.metaKey)) return;
+    const { key, ctrlKey, metaKey, shiftKey, altKey } = event;
+    send({ type: 'keydown', key, ctrlKey, metaKey, shiftKey, altKey });
+  }, true);
+
+  // Edits get an inline !important style, which wins over the page's stylesheets and the baked-in edits
+  const setStyles = (elements: Element[], styles: Record<string, string>) => {
+    elements.forEach(element => {
+      if (!(element instanceof HTMLElement || element instanceof SVGElement)) return;
+      Object.entries(styles).forEach(([property, value]) => element.style.setProperty(property, value, 'important'));
+    });
+  };
+
+  window.addEventListener('message', event => {
+    const message = event.data as PreviewEnvelope<HostMessage> | null;
+    if (event.source !== window.parent || message?.channel !== channel) return;
+    switch (message.type) {
+      case 'apply-edit': {
+        const { property, value } = message.edit;
+        if (property === 'textContent') {
+          resolve(message.edit).forEach(element => {
+            element.textContent = value;
+          });
+        } else {
+          setStyles(resolve(message.edit), { [property]: value });
+        }
+        break;
+      }
+      case 'preview-styles':
+        setStyles(message.target ? resolve(message.target) : [document.body], message.styles);
+        break;
+      case 'clear-selection':
+        select(null);
+        break;
+    }
+  });
+};
+
+// The page with the agent as the first script of its head; `pauseScripts` keeps the page's own
+// scripts (and inline event handlers) from running
+export const withPreviewAgent = (html: string, { pauseScripts = false }: { pauseScripts?: boolean } = {}): string => {
+  const config: AgentConfig = { channel: PREVIEW_CHANNEL, idAttribute: ELEMENT_ID_ATTRIBUTE, snapshotStyles: SNAPSHOT_STYLES };
+  const nonce = Math.random().toString(36).slice(2);
+  const policy = pauseScripts ? `<meta http-equiv="Content-Security-Policy" content="script-src 'nonce-${nonce}'">` : '';
+  const script = `${policy}<script nonce="${nonce}" data-prism-agent>(${previewAgent})(${JSON.stringify(config)}, ${elementPath});</script>`;
+  const head = html.match(/<head\b[^>]*>/i);
+  if (head) return html.replace(head[0], match => match + script);
+  // Without a <head> the parser puts the script in the one it creates, as long as it follows the doctype
+  return html.replace(/^(\s*<!doctype[^>]*>)?/i, match => match + script);
+};
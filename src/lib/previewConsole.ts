@@ -0,0 +1,66 @@
+// What the page in the edit-mode preview logged: its console output, uncaught errors and resources
+// that failed to load, as the preview agent reports them (lib/previewAgent.ts)
+//
+// Kept outside React state because the workspace re-renders (and reloads the preview) whenever the
+// app does; the console panel subscribes to it instead (useSyncExternalStore). It holds what the
+// current preview document logged: the agent's `ready` message starts over. Whether the panel is
+// open is kept here for the same reason - opening it must not reload the page it shows.
+
+export type ConsoleLevel = 'log' | 'info' | 'warn' | 'error';
+
+export interface ConsoleEntry {
+  id: number;
+  level: ConsoleLevel;
+  text: string;
+  source?: string; // External script an uncaught error was thrown in, with its line
+  count: number; // Identical entries in a row are counted instead of repeated
+  timestamp: number;
+}
+
+const MAX_ENTRIES = 200;
+
+let entries: ConsoleEntry[] = [];
+let nextId = 1;
+let open = false;
+
+const listeners = new Set<() => void>();
+let version = 0;
+
+const notify = () => {
+  version++;
+  listeners.forEach(listener => listener());
+};
+
+export const subscribeToConsole = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const consoleVersion = () => version;
+
+export const getConsoleEntries = (): ConsoleEntry[] => entries;
+
+export const isConsoleOpen = () => open;
+
+export const toggleConsole = () => {
+  open = !open;
+  notify();
+};
+
+export const addConsoleEntry = (level: ConsoleLevel, text: string, source?: string) => {
+  const last = entries[entries.length - 1];
+  if (last && last.level === level && last.text === text && last.source === source) {
+    entries = [...entries.slice(0, -1), { ...last, count: last.count + 1, timestamp: Date.now() }];
+  } else {
+    entries = [...entries, { id: nextId++, level, text, source, count: 1, timestamp: Date.now() }].slice(-MAX_ENTRIES);
+  }
+  notify();
+};
+
+export const clearConsole = () => {
+  if (entries.length === 0) return;
+  entries = [];
+  notify();
+};
@@ -0,0 +1,57 @@
+// Messages between the workspace and the agent running inside the edit-mode preview frame
+//
+// The preview is a sandboxed iframe without same-origin access, so the workspace can't reach into
+// its DOM: the agent (lib/previewAgent.ts) reports what the user selects or types, and the
+// workspace tells it which edits to show. Every message carries PREVIEW_CHANNEL so neither side
+// acts on other messages the page posts.
+
+import type { EditTarget } from './elementIdentity';
+import type { ConsoleLevel } from './previewConsole';
+
+export const PREVIEW_CHANNEL = 'prism-preview';
+
+// Computed styles reported for a selected element: what the properties panel edits, and what it
+// needs to tell gradient text apart
+export const SNAPSHOT_STYLES = [
+  'color', 'background-color', 'font-size', 'font-weight', 'font-family',
+  'padding-top', 'padding-right', 'padding-bottom', 'padding-left',
+  'margin-top', 'margin-right', 'margin-bottom', 'margin-left',
+  'border-radius', 'border', 'width', 'height',
+  'background', 'background-image', 'background-clip', '-webkit-background-clip', '-webkit-text-fill-color',
+];
+
+// An element of the previewed page as the properties panel sees it. Names follow the DOM.
+export interface ElementSnapshot {
+  target: EditTarget;
+  tagName: string;
+  className: string;
+  id: string;
+  parentTagName: string;
+  text: string | null; // Text of elements without child elements
+  styles: Record<string, string>; // SNAPSHOT_STYLES, computed
+  pageBackground: string; // Computed background color of the page's body
+}
+
+// Workspace -> agent
+export type HostMessage =
+  | { type: 'apply-edit'; edit: EditTarget & { property: string; value: string } } // As the edit store records it
+  | { type: 'preview-styles'; target: EditTarget | null; styles: Record<string, string> } // Not recorded; null: the body
+  | { type: 'clear-selection' };
+
+// Agent -> workspace
+export type AgentMessage =
+  | { type: 'ready' } // A new preview document, before any of the page's scripts ran
+  | { type: 'console'; level: ConsoleLevel; text: string; source?: string } // See lib/previewConsole.ts
+  | { type: 'select'; element: ElementSnapshot }
+  | { type: 'text-edit'; target: EditTarget; text: string } // Already shown in the preview
+  | { type: 'keydown'; key: string; ctrlKey: boolean; metaKey: boolean; shiftKey: boolean; altKey: boolean }; // Shortcuts pressed in the frame
+
+export type PreviewEnvelope<T> = T & { channel: typeof PREVIEW_CHANNEL };
+
+export const isAgentMessage = (data: unknown): data is PreviewEnvelope<AgentMessage> =>
+  typeof data === 'object' && data !== null && (data as { channel?: unknown }).channel === PREVIEW_CHANNEL;
+
+// The frame has an opaque origin, so messages can't be addressed to a specific one
+export const postToAgent = (frame: HTMLIFrameElement | null, message: HostMessage) => {
+  frame?.contentWindow?.postMessage({ ...message, channel: PREVIEW_CHANNEL }, '*');
+};
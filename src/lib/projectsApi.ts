@@ -0,0 +1,230 @@
+// Client for the project routes of the Prism server (/api/projects)
+// Projects used to live in localStorage['prism-saved-designs']; see migrateLocalProjects().
+
+import { API_BASE_URL, apiRequest, type VariantDirection } from './api';
+
+export interface StyleEdit {
+  elementId?: string; // data-prism-id of the edited element (lib/elementIdentity.ts); missing on older edits
+  selector: string; // Structural path used when the id is gone - for older edits a class or tag selector
+  property: string;
+  value: string;
+  timestamp: number;
+}
+
+// One undoable step of the pending style edits (lib/editStore.ts): the edits it replaced - null
+// where there was none - and the ones it left, null where it removed one
+export interface EditChange {
+  before: StyleEdit | null;
+  after: StyleEdit | null;
+}
+
+export interface EditCommand {
+  changes: EditChange[];
+  timestamp: number; // Last change, for coalescing slider drags
+}
+
+export interface EditHistory {
+  undo: EditCommand[]; // Oldest first
+  redo: EditCommand[]; // Next to redo last
+}
+
+// Immutable snapshot of a project's code. Every change of the design - generation, chat refinement,
+// alternate switch, code edit, batch of style edits, restore - appends one; none is ever replaced.
+export interface ProjectRevision {
+  id: string;
+  code: string;
+  instruction: string; // Original prompt for the first revision, what changed the design after that
+  source: 'generate' | 'refine' | 'alternate' | 'code' | 'edits' | 'restore';
+  timestamp: number;
+  label?: string; // Name the user gave this version in the history panel
+  edits?: StyleEdit[]; // Of an 'edits' revision: the pending style edits baked into `code`
+}
+
+// One design of the variants run that created a project; kept so the user can compare them again,
+// switch the project to another one or promote one into its own project
+export interface ProjectAlternate {
+  id: string;
+  code: string; // Updated with the user's work when the project switches away from it
+  direction: VariantDirection;
+  timestamp: number;
+}
+
+// Marker of the site a project is published as (POST /api/projects/:id/publish)
+export interface PublishedSite {
+  slug: string;
+  path: string; // Served by the Prism server, e.g. /sites/<slug>/
+  version: number; // Counts up with every republish
+  publishedAt: number;
+  sourceHash: string; // SHA-256 of the published HTML, to tell whether the design changed since
+}
+
+// Read-only link to a snapshot of a project (POST /api/projects/:id/shares)
+export interface ShareLink {
+  token: string;
+  projectId: string;
+  revisionId: string | null; // null when the current design was shared
+  title: string;
+  path: string; // Served by the Prism server, e.g. /share/<token>
+  createdAt: number;
+  expiresAt: number | null;
+  hasPasscode: boolean;
+  expired: boolean;
+}
+
+export interface SavedDesign {
+  id: string;
+  prompt: string;
+  code: string;
+  timestamp: number;
+  thumbnail?: string; // Data URL when freshly rendered, server URL once stored
+  edits?: StyleEdit[]; // Track all style edits made by user
+  editHistory?: EditHistory; // Undo/redo steps of `edits`, saved with them
+  revisions?: ProjectRevision[]; // Oldest first
+  alternates?: ProjectAlternate[]; // In the order they were generated
+  activeAlternateId?: string; // Alternate the project's code currently comes from
+  published?: PublishedSite | null; // Set by the server when the project is published
+}
+
+const LEGACY_STORAGE_KEY = 'prism-saved-designs';
+
+// Thumbnails come back as server paths; make them loadable from the Vite origin
+const fromServer = (project: SavedDesign): SavedDesign =>
+  project.thumbnail?.startsWith('/') ? { ...project, thumbnail: `${API_BASE_URL}${project.thumbnail}` } : project;
+
+export const listProjects = async (): Promise<SavedDesign[]> => {
+  const { projects } = await apiRequest<{ projects: SavedDesign[] }>('/api/projects');
+  return projects.map(fromServer);
+};
+
+export const saveProject = async (project: SavedDesign): Promise<SavedDesign> =>
+  fromServer(await apiRequest<SavedDesign>(`/api/projects/${project.id}`, {
+    method: 'PUT',
+    body: JSON.stringify(project),
+  }));
+
+// `keepalive` lets the request finish while the page unloads
+export const updateProject = async (id: string, fields: Partial<SavedDesign>, options: { keepalive?: boolean } = {}): Promise<SavedDesign> =>
+  fromServer(await apiRequest<SavedDesign>(`/api/projects/${id}`, {
+    method: 'PATCH',
+    body: JSON.stringify(fields),
+    keepalive: options.keepalive,
+  }));
+
+export const deleteProject = async (id: string): Promise<void> => {
+  await apiRequest(`/api/projects/${id}`, { method: 'DELETE' });
+};
+
+// Write `html` (final page, edits applied) as the project's site; `slug` changes its address
+export const publishProject = async (id: string, html: string, slug?: string): Promise<SavedDesign> =>
+  fromServer(await apiRequest<SavedDesign>(`/api/projects/${id}/publish`, {
+    method: 'POST',
+    body: JSON.stringify({ html, slug }),
+  }));
+
+export const unpublishProject = async (id: string): Promise<SavedDesign> =>
+  fromServer(await apiRequest<SavedDesign>(`/api/projects/${id}/publish`, { method: 'DELETE' }));
+
+export const publishedSiteUrl = (site: PublishedSite) => `${API_BASE_URL}${site.path}`;
+
+// Share `revisionId`, or `html` (final page, edits applied) when sharing the current design
+export const createShareLink = async (
+  projectId: string,
+  options: { revisionId?: string; html?: string; expiresInHours?: number; passcode?: string },
+): Promise<ShareLink> =>
+  apiRequest<ShareLink>(`/api/projects/${projectId}/shares`, {
+    method: 'POST',
+    body: JSON.stringify(options),
+  });
+
+export const listShareLinks = async (projectId?: string): Promise<ShareLink[]> => {
+  const query = projectId ? `?projectId=${encodeURIComponent(projectId)}` : '';
+  const { shares } = await apiRequest<{ shares: ShareLink[] }>(`/api/shares${query}`);
+  return shares;
+};
+
+export const revokeShareLink = async (token: string): Promise<void> => {
+  await apiRequest(`/api/shares/${token}`, { method: 'DELETE' });
+};
+
+export const shareLinkUrl = (share: ShareLink) => `${API_BASE_URL}${share.path}`;
+
+// One-line summary for link lists, e.g. "Current design · passcode · expires 5/1/2026"
+export const describeShareLink = (share: ShareLink) => [
+  share.revisionId ? 'Earlier revision' : 'Current design',
+  share.hasPasscode ? 'passcode' : null,
+  share.expired ? 'expired' : share.expiresAt ? `expires ${new Date(share.expiresAt).toLocaleDateString()}` : 'no expiry',
+].filter(Boolean).join(' · ');
+
+// Same hash the server stores as sourceHash
+export const hashPublishedHtml = async (html: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(html));
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const createRevisionId = () => Date.now().toString(36) + Math.random().toString(36).slice(2);
+
+// The project's revisions with a new one at the end. Projects saved before revisions existed get
+// their current code as the first revision, so the design the change started from is kept.
+export const appendRevision = (
+  project: SavedDesign,
+  revision: Pick<ProjectRevision, 'code' | 'instruction' | 'source' | 'edits'> & { timestamp?: number },
+): ProjectRevision[] => [
+  ...(project.revisions || [{
+    id: createRevisionId(),
+    code: project.code,
+    instruction: project.prompt,
+    source: 'generate' as const,
+    timestamp: project.timestamp,
+  }]),
+  { id: createRevisionId(), timestamp: Date.now(), ...revision },
+];
+
+// Fields of `next` that differ from `previous`, used to send only what changed
+export const changedProjectFields = (previous: SavedDesign, next: SavedDesign): Partial<SavedDesign> => {
+  const changed: Partial<SavedDesign> = {};
+  (Object.keys(next) as (keyof SavedDesign)[]).forEach(key => {
+    const before = previous[key];
+    const after = next[key];
+    const same = typeof after === 'object' ? JSON.stringify(before) === JSON.stringify(after) : before === after;
+    if (!same) {
+      Object.assign(changed, { [key]: after });
+    }
+  });
+  return changed;
+};
+
+// Move projects from this browser's localStorage to the server, once.
+// The local copy is only removed after the server has accepted the import; projects it rejected
+// stay in localStorage (the ones it already had are not kept - the server's copy wins).
+export const migrateLocalProjects = async (): Promise<number> => {
+  const raw = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!raw) return 0;
+
+  let projects: unknown;
+  try {
+    projects = JSON.parse(raw);
+  } catch {
+    console.error('❌ Legacy saved designs are not valid JSON - leaving them in localStorage');
+    return 0;
+  }
+  if (!Array.isArray(projects) || projects.length === 0) {
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+    return 0;
+  }
+
+  const { imported, skipped } = await apiRequest<{ imported: number; skipped: { id: string; reason: string }[] }>('/api/projects/import', {
+    method: 'POST',
+    body: JSON.stringify({ projects }),
+  });
+  const rejected = skipped.filter(entry => entry.reason !== 'already exists');
+  if (skipped.length > 0) {
+    console.warn('⚠️ Some local projects were not imported:', skipped);
+  }
+  if (rejected.length > 0) {
+    const kept = projects.filter(project => rejected.some(entry => entry.id === (project as { id?: string } | null)?.id));
+    localStorage.setItem(LEGACY_STORAGE_KEY, JSON.stringify(kept));
+  } else {
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+  }
+  return imported;
+};
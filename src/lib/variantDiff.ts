@@ -0,0 +1,141 @@
+// Structural and color differences between two design variants, for the compare view.
+//
+// Sections are matched by the keys of the variant mixer ("features-0", "pricing-0"), so a section
+// counts as added when the reference variant has no section of the same kind and occurrence.
+// The palette is read from the color values in <style> blocks and style attributes; two colors are
+// considered the same when they are close enough that nobody would notice the difference.
+
+import { describeSections, type MixSection } from './variantMixer';
+
+export interface VariantDiff {
+  addedSections: MixSection[]; // Only in the compared variant
+  missingSections: MixSection[]; // Only in the reference
+  palette: string[]; // Most used colors of the compared variant, as #rrggbb
+  addedColors: string[]; // Palette colors the reference has nothing close to
+  missingColors: string[]; // Reference palette colors the compared variant has nothing close to
+}
+
+type Rgb = [number, number, number];
+
+const PALETTE_SIZE = 8;
+const DUPLICATE_DISTANCE = 16; // Shades this close are merged when building a palette
+const MATCH_DISTANCE = 48; // Palette colors this close count as the same color across variants
+
+const COLOR_PATTERN = /#(?:[0-9a-f]{8}|[0-9a-f]{6}|[0-9a-f]{3,4})\b|rgba?\([^)]*\)|hsla?\([^)]*\)/gi;
+// Declaration values only - keeps id selectors such as #faded out of the palette
+const DECLARATION_VALUE = /:\s*([^;{}]+)/g;
+
+const HIGHLIGHT_STYLE = `
+[data-prism-diff="added"] {
+  outline: 3px dashed #f59e0b !important;
+  outline-offset: -3px !important;
+  box-shadow: inset 0 0 0 9999px rgba(245, 158, 11, 0.08) !important;
+}`;
+
+const parse = (html: string) => new DOMParser().parseFromString(html, 'text/html');
+
+const channel = (value: string, max: number) => {
+  const number = parseFloat(value);
+  if (Number.isNaN(number)) return null;
+  return value.trim().endsWith('%') ? (number / 100) * max : number;
+};
+
+const hslToRgb = (h: number, s: number, l: number): Rgb => {
+  const k = (n: number) => (n + h / 30) % 12;
+  const a = s * Math.min(l, 1 - l);
+  const f = (n: number) => l - a * Math.max(-1, Math.min(k(n) - 3, Math.min(9 - k(n), 1)));
+  return [f(0) * 255, f(8) * 255, f(4) * 255];
+};
+
+// Parse one CSS color into RGB; null for transparent colors and anything unparseable
+const toRgb = (color: string): Rgb | null => {
+  const value = color.toLowerCase();
+  if (value.startsWith('#')) {
+    const hex = value.length <= 5 ? value.slice(1).split('').map(digit => digit + digit).join('') : value.slice(1);
+    if (hex.length === 8 && parseInt(hex.slice(6, 8), 16) === 0) return null;
+    return [0, 2, 4].map(offset => parseInt(hex.slice(offset, offset + 2), 16)) as Rgb;
+  }
+
+  const parts = value.slice(value.indexOf('(') + 1, -1).split(/[\s,/]+/).filter(Boolean);
+  if (parts.length < 3) return null;
+  if (parts[3] !== undefined && channel(parts[3], 1) === 0) return null;
+  if (value.startsWith('rgb')) {
+    const rgb = parts.slice(0, 3).map(part => channel(part, 255));
+    return rgb.some(part => part === null) ? null : rgb as Rgb;
+  }
+  const [h, s, l] = [parseFloat(parts[0]), channel(parts[1], 1), channel(parts[2], 1)];
+  if (Number.isNaN(h) || s === null || l === null) return null;
+  return hslToRgb(((h % 360) + 360) % 360, s, l);
+};
+
+const toHex = (rgb: Rgb) =>
+  `#${rgb.map(part => Math.round(Math.max(0, Math.min(255, part))).toString(16).padStart(2, '0')).join('')}`;
+
+const distance = (a: Rgb, b: Rgb) => Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+
+// The most used colors of a document, most used first
+const extractPalette = (doc: Document): Rgb[] => {
+  const css = [
+    ...Array.from(doc.querySelectorAll('style')).map(style => style.textContent || ''),
+    ...Array.from(doc.querySelectorAll('[style]')).map(element => element.getAttribute('style') || ''),
+  ].join('\n');
+
+  const counts = new Map<string, { rgb: Rgb; count: number }>();
+  for (const [, value] of css.matchAll(DECLARATION_VALUE)) {
+    for (const [color] of value.matchAll(COLOR_PATTERN)) {
+      const rgb = toRgb(color);
+      if (!rgb) continue;
+      const hex = toHex(rgb);
+      const entry = counts.get(hex) ?? { rgb, count: 0 };
+      entry.count++;
+      counts.set(hex, entry);
+    }
+  }
+
+  const palette: Rgb[] = [];
+  [...counts.values()]
+    .sort((a, b) => b.count - a.count)
+    .forEach(({ rgb }) => {
+      if (palette.length < PALETTE_SIZE && !palette.some(existing => distance(existing, rgb) < DUPLICATE_DISTANCE)) {
+        palette.push(rgb);
+      }
+    });
+  return palette;
+};
+
+const unmatched = (colors: Rgb[], others: Rgb[]) =>
+  colors.filter(color => !others.some(other => distance(color, other) < MATCH_DISTANCE)).map(toHex);
+
+const sectionInfo = ({ key, kind, label }: MixSection): MixSection => ({ key, kind, label });
+
+// Compare `html` against the `reference` variant
+export const diffVariants = (reference: string, html: string): VariantDiff => {
+  const referenceDoc = parse(reference);
+  const doc = parse(html);
+  const referenceSections = describeSections(referenceDoc);
+  const sections = describeSections(doc);
+  const referencePalette = extractPalette(referenceDoc);
+  const palette = extractPalette(doc);
+
+  return {
+    addedSections: sections.filter(section => !referenceSections.some(other => other.key === section.key)).map(sectionInfo),
+    missingSections: referenceSections.filter(section => !sections.some(other => other.key === section.key)).map(sectionInfo),
+    palette: palette.map(toHex),
+    addedColors: unmatched(palette, referencePalette),
+    missingColors: unmatched(referencePalette, palette),
+  };
+};
+
+// Outline the sections with the given keys inside the preview document
+export const highlightSections = (html: string, keys: string[]): string => {
+  if (keys.length === 0) return html;
+  const doc = parse(html);
+  describeSections(doc)
+    .filter(section => keys.includes(section.key))
+    .forEach(section => section.element.setAttribute('data-prism-diff', 'added'));
+  const style = doc.createElement('style');
+  style.setAttribute('data-prism-diff', 'style');
+  style.textContent = HIGHLIGHT_STYLE;
+  doc.head.appendChild(style);
+  return `<!DOCTYPE html>\n${doc.documentElement.outerHTML}`;
+};
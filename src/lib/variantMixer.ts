@@ -0,0 +1,297 @@
+// Assemble one page from the sections of several design variants ("A's hero with B's pricing").
+//
+// The first chosen variant is the base document. Sections taken from other variants ("donors")
+// replace the base section of the same kind, and their CSS is scoped so both stylesheets coexist:
+//   - donor rules only match inside the donor's sections:  .prism-mix-b .card, .prism-mix-b:is(.card)
+//   - base rules never match inside donor sections:        .card:not(.prism-mix-b, .prism-mix-b *)
+//   - donor html/body/:root rules apply to the donor's section roots, donor keyframes are renamed
+// Base rules on html/body/:root/* stay global, so page background and resets still apply everywhere.
+
+export interface MixSection {
+  key: string; // Kind plus occurrence, e.g. "features-0" - sections with the same key are interchangeable
+  kind: string;
+  label: string;
+}
+
+export interface MixResult {
+  html: string;
+  warnings: string[];
+}
+
+const SECTION_KINDS = [
+  'hero', 'features', 'pricing', 'testimonials', 'faq', 'contact', 'cta', 'about', 'team',
+  'gallery', 'stats', 'services', 'newsletter', 'footer', 'header', 'nav',
+];
+const SKIPPED_TAGS = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'LINK', 'META']);
+const GLOBAL_COMPOUND = /^(?:html|body|:root)(?![\w-])((?:[.#[:][^\s>+~]*)?)\s*>?\s*/i;
+const UNIVERSAL_SELECTOR = /^\*(?:::?[\w-]+)*$/;
+const TRAILING_PSEUDO_ELEMENT = /(::[\w-]+(?:\([^)]*\))?|:(?:before|after|first-line|first-letter))$/i;
+
+const scopeClass = (variantIndex: number) => `prism-mix-${String.fromCharCode(97 + variantIndex)}`;
+
+const contentChildren = (element: Element) =>
+  Array.from(element.children).filter(child => !SKIPPED_TAGS.has(child.tagName));
+
+// Top-level sections of a document, in order. Single wrapper divs are looked through,
+// and a <main> holding several sections contributes those sections.
+const findSectionElements = (doc: Document): Element[] => {
+  let container: Element = doc.body;
+  for (let depth = 0; depth < 3; depth++) {
+    const children = contentChildren(container);
+    if (children.length === 1 && ['DIV', 'MAIN'].includes(children[0].tagName) && contentChildren(children[0]).length > 1) {
+      container = children[0];
+    } else {
+      break;
+    }
+  }
+  return contentChildren(container).flatMap(child =>
+    child.tagName === 'MAIN' && contentChildren(child).length > 1 ? contentChildren(child) : [child]
+  );
+};
+
+const sectionKind = (element: Element): string => {
+  const tag = element.tagName.toLowerCase();
+  if (tag === 'header' || tag === 'nav' || tag === 'footer') return tag;
+  const names = `${element.id} ${element.getAttribute('class') || ''}`.toLowerCase();
+  return SECTION_KINDS.find(kind => names.includes(kind)) || 'section';
+};
+
+const sectionLabel = (element: Element, kind: string): string => {
+  if (kind !== 'section') return kind.charAt(0).toUpperCase() + kind.slice(1);
+  const heading = element.querySelector('h1, h2, h3')?.textContent?.trim();
+  if (!heading) return 'Section';
+  return heading.length > 30 ? `${heading.slice(0, 30)}...` : heading;
+};
+
+// Section elements of a parsed document with their keys
+export const describeSections = (doc: Document) => {
+  const occurrences: Record<string, number> = {};
+  return findSectionElements(doc).map(element => {
+    const kind = sectionKind(element);
+    const occurrence = occurrences[kind] = (occurrences[kind] ?? -1) + 1;
+    return { element, key: `${kind}-${occurrence}`, kind, label: sectionLabel(element, kind) };
+  });
+};
+
+const parse = (html: string) => new DOMParser().parseFromString(html, 'text/html');
+
+export const detectSections = (html: string): MixSection[] =>
+  describeSections(parse(html)).map(({ key, kind, label }) => ({ key, kind, label }));
+
+// Split a selector list on its top-level commas (not those inside :is(...) or [attr="a,b"])
+const splitSelectorList = (selectorText: string): string[] => {
+  const selectors: string[] = [];
+  let depth = 0;
+  let quote = '';
+  let current = '';
+  for (const char of selectorText) {
+    if (quote) {
+      if (char === quote) quote = '';
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '(' || char === '[') {
+      depth++;
+    } else if (char === ')' || char === ']') {
+      depth--;
+    } else if (char === ',' && depth === 0) {
+      selectors.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  if (current.trim()) selectors.push(current.trim());
+  return selectors;
+};
+
+// Split a complex selector into compounds with the combinator in front of each:
+// ".a > .b c" -> [{ "", ".a" }, { " > ", ".b" }, { " ", "c" }]
+const splitCompounds = (selector: string): { combinator: string; compound: string }[] => {
+  const compounds: { combinator: string; compound: string }[] = [];
+  let depth = 0;
+  let quote = '';
+  let combinator = '';
+  let current = '';
+  for (const char of selector) {
+    if (quote) {
+      if (char === quote) quote = '';
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '(' || char === '[') {
+      depth++;
+    } else if (char === ')' || char === ']') {
+      depth--;
+    } else if (depth === 0 && /[\s>+~]/.test(char)) {
+      if (current) {
+        compounds.push({ combinator, compound: current });
+        current = '';
+        combinator = '';
+      }
+      combinator = /\s/.test(char) && combinator ? combinator : char === ' ' && !combinator ? ' ' : char.trim() ? ` ${char} ` : combinator || ' ';
+      continue;
+    }
+    current += char;
+  }
+  if (current) compounds.push({ combinator, compound: current });
+  return compounds;
+};
+
+// Split leading html / body / :root compounds off a selector: "body.dark .card" -> [".dark", ".card"]
+const stripGlobalPrefix = (selector: string): { suffix: string; rest: string } | null => {
+  let suffix = '';
+  let rest = selector;
+  let match = rest.match(GLOBAL_COMPOUND);
+  if (!match) return null;
+  while (match) {
+    suffix += match[1];
+    rest = rest.slice(match[0].length);
+    match = rest.match(GLOBAL_COMPOUND);
+  }
+  return { suffix, rest: rest.trim() };
+};
+
+// Selectors for the page itself (html, body, :root) or every element (*, *::before)
+const isGlobalSelector = (selector: string) =>
+  stripGlobalPrefix(selector)?.rest === '' || UNIVERSAL_SELECTOR.test(selector);
+
+// Donor selector -> only matches inside sections with the donor's scope class
+const scopeDonorSelector = (selector: string, scope: string): string[] => {
+  const global = stripGlobalPrefix(selector);
+  if (global) {
+    const root = `.${scope}${global.suffix}`;
+    return global.rest ? [`${root} ${global.rest}`] : [root];
+  }
+  if (UNIVERSAL_SELECTOR.test(selector)) {
+    return [`.${scope}${selector.slice(1)}`, `.${scope} ${selector}`];
+  }
+  // Inside the section, or with any compound being the section root itself (".hero h1" where
+  // the root has class "hero"). A root followed by + or ~ would match outside the section, so those
+  // are skipped. Pseudo-elements are not allowed in :is(), so they stay outside.
+  const compounds = splitCompounds(selector);
+  const rootIndexes = compounds
+    .map((_, index) => index)
+    .filter(index => !/[+~]/.test(compounds[index + 1]?.combinator || ''));
+  return [
+    `.${scope} ${selector}`,
+    ...rootIndexes.map(rootIndex => compounds.map(({ combinator, compound }, index) => {
+      if (index !== rootIndex) return `${combinator}${compound}`;
+      const pseudo = compound.match(TRAILING_PSEUDO_ELEMENT);
+      const base = pseudo ? compound.slice(0, -pseudo[0].length) : compound;
+      return `${combinator}.${scope}${base && base !== '*' ? `:is(${base})` : ''}${pseudo ? pseudo[0] : ''}`;
+    }).join('')),
+  ];
+};
+
+// Base selector -> never matches inside donor sections
+const excludeDonors = (selector: string, exclusion: string): string => {
+  if (isGlobalSelector(selector)) return selector;
+  const pseudo = selector.match(TRAILING_PSEUDO_ELEMENT);
+  return pseudo
+    ? `${selector.slice(0, -pseudo[0].length)}${exclusion}${pseudo[0]}`
+    : `${selector}${exclusion}`;
+};
+
+const renameAnimations = (style: CSSStyleDeclaration, renamed: Map<string, string>) => {
+  const names = style.getPropertyValue('animation-name');
+  if (!names) return;
+  const priority = style.getPropertyPriority('animation-name');
+  style.setProperty('animation-name', names.split(',').map(name => renamed.get(name.trim()) || name.trim()).join(', '), priority);
+};
+
+// Rewrite a stylesheet for its place in the mixed document, see the top of this file
+const rewriteCss = (css: string, rewriteSelector: (selector: string) => string[], keyframeSuffix: string | null): string => {
+  // Constructed stylesheets drop @import rules (usually web fonts), so they are carried over as-is
+  const imports = css.match(/@import[^;]+;/g) || [];
+  const sheet = new CSSStyleSheet();
+  try {
+    sheet.replaceSync(css.replace(/@import[^;]+;/g, ''));
+  } catch (error) {
+    console.warn('⚠️ [Variant Mixer] Could not parse a stylesheet, keeping it unchanged:', error);
+    return css;
+  }
+
+  const renamed = new Map<string, string>();
+  const renameKeyframes = (rules: CSSRuleList) => Array.from(rules).forEach(rule => {
+    if (rule instanceof CSSKeyframesRule && keyframeSuffix) {
+      renamed.set(rule.name, `${rule.name}-${keyframeSuffix}`);
+      rule.name = `${rule.name}-${keyframeSuffix}`;
+    } else if (rule instanceof CSSGroupingRule) {
+      renameKeyframes(rule.cssRules);
+    }
+  });
+  const rewriteRules = (rules: CSSRuleList) => Array.from(rules).forEach(rule => {
+    if (rule instanceof CSSStyleRule) {
+      rule.selectorText = splitSelectorList(rule.selectorText).flatMap(rewriteSelector).join(', ');
+      renameAnimations(rule.style, renamed);
+    } else if (rule instanceof CSSGroupingRule) {
+      rewriteRules(rule.cssRules);
+    }
+  });
+
+  renameKeyframes(sheet.cssRules);
+  rewriteRules(sheet.cssRules);
+  return [...imports, ...Array.from(sheet.cssRules).map(rule => rule.cssText)].join('\n');
+};
+
+// Build one document from `variants` (full HTML pages). `choices` maps section keys of the base
+// variant to the index of the variant that section should come from; anything else stays from the base.
+export const mixVariants = (variants: string[], baseIndex: number, choices: Record<string, number>): MixResult => {
+  const warnings: string[] = [];
+  const doc = parse(variants[baseIndex]);
+  const donorDocs = new Map<number, Document>();
+  const donorDoc = (index: number) => {
+    let donor = donorDocs.get(index);
+    if (!donor) {
+      donor = parse(variants[index]);
+      donorDocs.set(index, donor);
+    }
+    return donor;
+  };
+
+  describeSections(doc).forEach(({ element, key, label }) => {
+    const source = choices[key];
+    if (source === undefined || source === baseIndex || !variants[source]) return;
+    const donorSection = describeSections(donorDoc(source)).find(section => section.key === key);
+    if (!donorSection) {
+      warnings.push(`Variant ${String.fromCharCode(65 + source)} has no ${label} section - kept the original`);
+      return;
+    }
+    const imported = doc.importNode(donorSection.element, true) as Element;
+    imported.querySelectorAll('style, script').forEach(node => node.remove());
+    imported.classList.add(scopeClass(source));
+    element.replaceWith(imported);
+  });
+
+  const donors = Array.from(donorDocs.keys()).filter(index => doc.querySelector(`.${scopeClass(index)}`));
+  if (donors.length === 0) return { html: variants[baseIndex], warnings };
+
+  // Base styles stay in place, minus everything inside donor sections
+  const exclusion = `:not(${donors.flatMap(index => [`.${scopeClass(index)}`, `.${scopeClass(index)} *`]).join(', ')})`;
+  doc.querySelectorAll('style').forEach(style => {
+    style.textContent = rewriteCss(style.textContent || '', selector => [excludeDonors(selector, exclusion)], null);
+  });
+
+  donors.forEach(index => {
+    const donor = donorDoc(index);
+    const scope = scopeClass(index);
+    const css = Array.from(donor.querySelectorAll('style')).map(style => style.textContent || '').join('\n');
+    const style = doc.createElement('style');
+    style.setAttribute('data-prism-mix', scope);
+    style.textContent = rewriteCss(css, selector => scopeDonorSelector(selector, scope), scope);
+    doc.head.appendChild(style);
+
+    // Web fonts and other stylesheets the donor sections rely on
+    donor.head.querySelectorAll('link[rel="stylesheet"], link[rel="preconnect"]').forEach(link => {
+      const href = link.getAttribute('href');
+      if (href && !Array.from(doc.head.querySelectorAll('link')).some(existing => existing.getAttribute('href') === href)) {
+        doc.head.appendChild(doc.importNode(link, true));
+      }
+    });
+
+    if (donor.querySelector('script')) {
+      warnings.push(`Scripts of variant ${String.fromCharCode(65 + index)} were not copied - interactive parts of its sections may need a refinement`);
+    }
+  });
+
+  return { html: `<!DOCTYPE html>\n${doc.documentElement.outerHTML}`, warnings };
+};